@@ -13,18 +13,36 @@ import { HTTPException } from 'hono/http-exception';
 import { env } from 'hono/adapter';
 import type { HonoEnv } from './lib/env.js';
 import { initDatabase } from './lib/db.js';
+import { startValuationRefreshWorker, stopValuationRefreshWorker } from './lib/valuation/refresh-worker.js';
+import { startTrashPurgeWorker, stopTrashPurgeWorker } from './lib/assets/trash.js';
 
 // Import route modules
 import authRoutes from './routes/auth.js';
 import assetRoutes from './routes/assets.js';
 import userRoutes from './routes/users.js';
 import categoryRoutes from './routes/categories.js';
+import valuationRoutes from './routes/valuations.js';
+import assetHistoryRoutes from './routes/asset-history.js';
+import adminRoutes from './routes/admin.js';
+import marketDataRoutes from './routes/market-data.js';
+import marketRoutes from './routes/market.js';
+import fxRoutes from './routes/fx.js';
+import organizationRoutes from './routes/organizations.js';
+import invitationRoutes from './routes/invitations.js';
 
 // Import types for better RPC support
 import type { AuthRoutesType } from './routes/auth.js';
 import type { AssetRoutesType } from './routes/assets.js';
 import type { UserRoutesType } from './routes/users.js';
 import type { CategoryRoutesType } from './routes/categories.js';
+import type { ValuationRoutesType } from './routes/valuations.js';
+import type { AssetHistoryRoutesType } from './routes/asset-history.js';
+import type { AdminRoutesType } from './routes/admin.js';
+import type { MarketDataRoutesType } from './routes/market-data.js';
+import type { MarketRoutesType } from './routes/market.js';
+import type { FxRoutesType } from './routes/fx.js';
+import type { OrganizationRoutesType } from './routes/organizations.js';
+import type { InvitationRoutesType } from './routes/invitations.js';
 
 // Define environment types for type safety
 type Bindings = {
@@ -66,8 +84,16 @@ const api = app.basePath('/api/v1');
 // Mount route modules
 api.route('/auth', authRoutes);
 api.route('/assets', assetRoutes);
+api.route('/assets', valuationRoutes); // Valuation routes live under /assets/:id/valuations
+api.route('/assets', assetHistoryRoutes); // History routes live under /assets/:id/history
 api.route('/users', userRoutes);
 api.route('/', categoryRoutes); // Categories routes are mounted at root level
+api.route('/admin', adminRoutes);
+api.route('/market-data', marketDataRoutes);
+api.route('/market', marketRoutes);
+api.route('/fx', fxRoutes);
+api.route('/organizations', organizationRoutes);
+api.route('/invitations', invitationRoutes);
 
 // Global error handler
 app.onError((err, c) => {
@@ -94,6 +120,25 @@ app.notFound((c) => {
   }, 404);
 });
 
+/**
+ * Positive integer from an environment variable, or undefined (with a
+ * warning) when it is unset or invalid so the caller's default applies
+ */
+function positiveIntEnv(name: string): number | undefined {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value <= 0) {
+    console.warn(`⚠️  Ignoring ${name}=${raw}: expected a positive integer`);
+    return undefined;
+  }
+
+  return value;
+}
+
 // Initialize database and start server
 async function startServer() {
   try {
@@ -110,6 +155,31 @@ async function startServer() {
     initDatabase(DATABASE_URL);
     console.log('✅ Database connected successfully');
 
+    // Background refresh of expiring valuations
+    if (process.env.VALUATION_REFRESH_ENABLED !== 'false') {
+      const intervalMs = positiveIntEnv('VALUATION_REFRESH_INTERVAL_MS');
+      const batchSize = positiveIntEnv('VALUATION_REFRESH_BATCH_SIZE');
+      const concurrency = positiveIntEnv('VALUATION_REFRESH_CONCURRENCY');
+      startValuationRefreshWorker({
+        ...(intervalMs && { intervalMs }),
+        ...(batchSize && { batchSize }),
+        ...(concurrency && { concurrency }),
+      });
+      console.log('⏱️  Valuation refresh worker started');
+    }
+
+    // Purge of trashed assets past their retention period (opt-in: it
+    // deletes data for good)
+    if (process.env.TRASH_PURGE_ENABLED === 'true') {
+      const intervalMs = positiveIntEnv('TRASH_PURGE_INTERVAL_MS');
+      const batchSize = positiveIntEnv('TRASH_PURGE_BATCH_SIZE');
+      startTrashPurgeWorker({
+        ...(intervalMs && { intervalMs }),
+        ...(batchSize && { batchSize }),
+      });
+      console.log('🗑️  Trash purge worker started');
+    }
+
     // Start server
     const port = parseInt(PORT);
     
@@ -132,11 +202,15 @@ async function startServer() {
 // Handle graceful shutdown
 process.on('SIGINT', () => {
   console.log('\n🛑 Received SIGINT, shutting down gracefully...');
+  stopValuationRefreshWorker();
+  stopTrashPurgeWorker();
   process.exit(0);
 });
 
 process.on('SIGTERM', () => {
   console.log('\n🛑 Received SIGTERM, shutting down gracefully...');
+  stopValuationRefreshWorker();
+  stopTrashPurgeWorker();
   process.exit(0);
 });
 
@@ -148,4 +222,4 @@ export default app;
 export type AppType = typeof api;
 
 // Export individual route types for granular RPC client generation
-export type { AuthRoutesType, AssetRoutesType, UserRoutesType, CategoryRoutesType };
+export type { AuthRoutesType, AssetRoutesType, UserRoutesType, CategoryRoutesType, ValuationRoutesType, AssetHistoryRoutesType, AdminRoutesType, MarketDataRoutesType, MarketRoutesType, FxRoutesType, OrganizationRoutesType, InvitationRoutesType };
@@ -0,0 +1,296 @@
+/**
+ * Asset History
+ *
+ * Audit trail of asset mutations in asset_history: who changed which field,
+ * from what to what, from where and why. Entries are written with the
+ * transaction that makes the change so the trail can't drift from the data.
+ *
+ * Values are stored as JSON text so they can be restored exactly.
+ */
+
+import type { Context } from 'hono';
+import { getConnInfo } from '@hono/node-server/conninfo';
+import { getTableColumns, eq, and, gt, gte, lte, desc, count, sql } from 'drizzle-orm';
+import { getDatabase, assets, assetHistory, users } from '../db.js';
+
+export type Asset = typeof assets.$inferSelect;
+export type AssetHistoryAction = 'created' | 'updated' | 'deleted' | 'restored' | 'images_added' | 'reassigned' | 'reverted';
+export type AssetHistoryEntry = typeof assetHistory.$inferSelect;
+export type AssetState = Partial<Asset> & { id: string };
+// Asset row as sent to clients, without the search document
+export type AssetRecord = Omit<Asset, 'searchVector'>;
+
+type Database = ReturnType<typeof getDatabase>;
+export type Transaction = Parameters<Parameters<Database['transaction']>[0]>[0];
+
+export interface AuditContext {
+  userId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  reason: string | null;
+}
+
+// Header carrying the reason for a change (bodies can also carry `reason`)
+export const CHANGE_REASON_HEADER = 'X-Change-Reason';
+
+// Bookkeeping and generated columns that are not part of the audited asset state
+const UNTRACKED_FIELDS = new Set<keyof Asset>(['id', 'createdAt', 'updatedAt', 'createdBy', 'searchVector']);
+
+// Tracked fields a revert may not touch: ownership and organization moves
+// have their own permission checks, and deletion has its own endpoints
+const NON_REVERTIBLE_FIELDS = new Set<keyof Asset>(['userId', 'organizationId', 'deletedAt']);
+
+const MAX_REASON_LENGTH = 1000;
+
+/**
+ * Asset columns covered by the audit trail
+ */
+export const TRACKED_FIELDS = (Object.keys(getTableColumns(assets)) as (keyof Asset)[])
+  .filter((field): field is keyof AssetRecord => !UNTRACKED_FIELDS.has(field));
+
+export const REVERTIBLE_FIELDS = TRACKED_FIELDS.filter((field) => !NON_REVERTIBLE_FIELDS.has(field));
+
+const assetColumns = getTableColumns(assets);
+
+/**
+ * JSON text for a column value, as stored in oldValue/newValue
+ */
+export const serializeHistoryValue = (value: unknown): string | null =>
+  value === null || value === undefined ? null : JSON.stringify(value);
+
+/**
+ * Column value from its stored JSON text (timestamps become Dates again)
+ */
+export const deserializeHistoryValue = (field: string, text: string | null): unknown => {
+  if (text === null) return null;
+
+  const value = JSON.parse(text);
+  const column = assetColumns[field as keyof typeof assetColumns];
+  return column?.dataType === 'date' && typeof value === 'string' ? new Date(value) : value;
+};
+
+/**
+ * Client address. Proxy headers can be sent by any client, so they are only
+ * read with TRUST_PROXY=true, behind a single reverse proxy: the address it
+ * appended to X-Forwarded-For, or its X-Real-IP. Otherwise the socket's
+ * remote address.
+ */
+const clientAddress = (c: Context): string | null => {
+  if (process.env.TRUST_PROXY === 'true') {
+    const forwarded = c.req.header('X-Forwarded-For')?.split(',').at(-1)?.trim();
+    if (forwarded) return forwarded;
+
+    const realIp = c.req.header('X-Real-IP')?.trim();
+    if (realIp) return realIp;
+  }
+
+  try {
+    return getConnInfo(c).remote.address ?? null;
+  } catch {
+    // Not served by the Node adapter (e.g. app.request in scripts)
+    return null;
+  }
+};
+
+/**
+ * Actor, origin and reason of the change made by the current request. A
+ * reason from the request body wins over the X-Change-Reason header.
+ */
+export const getAuditContext = (c: Context, bodyReason?: unknown): AuditContext => {
+  const reason = (typeof bodyReason === 'string' ? bodyReason.trim() : '')
+    || c.req.header(CHANGE_REASON_HEADER)?.trim()
+    || null;
+
+  return {
+    userId: c.get('userId'),
+    ipAddress: clientAddress(c)?.slice(0, 45) ?? null,
+    userAgent: c.req.header('User-Agent') ?? null,
+    reason: reason ? reason.slice(0, MAX_REASON_LENGTH) : null,
+  };
+};
+
+/**
+ * Fields whose value differs between two states of an asset
+ */
+export const diffAssets = (
+  before: Partial<Asset>,
+  after: Partial<Asset>
+): { field: keyof Asset; oldValue: string | null; newValue: string | null }[] =>
+  TRACKED_FIELDS
+    .filter((field) => field in after)
+    .map((field) => ({
+      field,
+      oldValue: serializeHistoryValue(before[field]),
+      newValue: serializeHistoryValue(after[field]),
+    }))
+    .filter((change) => change.oldValue !== change.newValue);
+
+/**
+ * Record an asset creation: a single entry holding the initial state
+ */
+export const recordAssetCreated = async (tx: Transaction, asset: AssetRecord, context: AuditContext): Promise<void> => {
+  const snapshot = Object.fromEntries(TRACKED_FIELDS.map((field) => [field, asset[field]]));
+
+  await tx.insert(assetHistory).values({
+    assetId: asset.id,
+    userId: context.userId,
+    action: 'created',
+    fieldChanged: null,
+    oldValue: null,
+    newValue: JSON.stringify(snapshot),
+    reason: context.reason,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+  });
+};
+
+/**
+ * Record the fields that changed between two states of an asset, one entry
+ * per field. Returns the number of entries written.
+ */
+export const recordAssetChanges = async (
+  tx: Transaction,
+  action: AssetHistoryAction,
+  before: AssetRecord,
+  after: Partial<Asset>,
+  context: AuditContext
+): Promise<number> => {
+  const changes = diffAssets(before, after);
+  if (changes.length === 0) {
+    return 0;
+  }
+
+  await tx.insert(assetHistory).values(changes.map((change) => ({
+    assetId: before.id,
+    userId: context.userId,
+    action,
+    fieldChanged: change.field,
+    oldValue: change.oldValue,
+    newValue: change.newValue,
+    reason: context.reason,
+    ipAddress: context.ipAddress,
+    userAgent: context.userAgent,
+  })));
+
+  return changes.length;
+};
+
+export interface AssetHistoryFilters {
+  action?: string;
+  field?: string;
+  actorId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * History entries of an asset, newest first, with the actor's name and
+ * values decoded from JSON. The actor's IP address and user agent are only
+ * included with `includeOrigin`.
+ */
+export const listAssetHistory = async (
+  assetId: string,
+  filters: AssetHistoryFilters,
+  page: { limit: number; offset: number },
+  includeOrigin = false
+) => {
+  const db = getDatabase();
+  const conditions = [eq(assetHistory.assetId, assetId)];
+  if (filters.action) conditions.push(eq(assetHistory.action, filters.action));
+  if (filters.field) conditions.push(eq(assetHistory.fieldChanged, filters.field));
+  if (filters.actorId) conditions.push(eq(assetHistory.userId, filters.actorId));
+  if (filters.from) conditions.push(gte(assetHistory.createdAt, filters.from));
+  if (filters.to) conditions.push(lte(assetHistory.createdAt, filters.to));
+
+  const [entries, [total]] = await Promise.all([
+    db.select({
+      entry: assetHistory,
+      actor: {
+        id: users.id,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        email: users.email,
+      },
+    })
+    .from(assetHistory)
+    .leftJoin(users, eq(assetHistory.userId, users.id))
+    .where(and(...conditions))
+    .orderBy(desc(assetHistory.createdAt), assetHistory.fieldChanged)
+    .limit(page.limit)
+    .offset(page.offset),
+    db.select({ count: count() })
+      .from(assetHistory)
+      .where(and(...conditions)),
+  ]);
+
+  return {
+    total: total?.count ?? 0,
+    entries: entries.map(({ entry, actor }) => ({
+      id: entry.id,
+      action: entry.action,
+      fieldChanged: entry.fieldChanged,
+      oldValue: entry.oldValue === null ? null : JSON.parse(entry.oldValue),
+      newValue: entry.newValue === null ? null : JSON.parse(entry.newValue),
+      reason: entry.reason,
+      ...(includeOrigin && { ipAddress: entry.ipAddress, userAgent: entry.userAgent }),
+      createdAt: entry.createdAt,
+      actor,
+    })),
+  };
+};
+
+/**
+ * State of an asset at a past moment, rebuilt from its current state by
+ * undoing the changes recorded after `at`, newest first
+ */
+export const reconstructAssetState = async (asset: AssetRecord, at: Date): Promise<AssetState> => {
+  const db = getDatabase();
+  const laterChanges = await db.select({
+    fieldChanged: assetHistory.fieldChanged,
+    oldValue: assetHistory.oldValue,
+  })
+  .from(assetHistory)
+  .where(and(
+    eq(assetHistory.assetId, asset.id),
+    gt(assetHistory.createdAt, at)
+  ))
+  .orderBy(desc(assetHistory.createdAt));
+
+  const state: Record<string, unknown> = { id: asset.id };
+  for (const field of TRACKED_FIELDS) {
+    state[field] = asset[field];
+  }
+
+  for (const change of laterChanges) {
+    if (change.fieldChanged && TRACKED_FIELDS.includes(change.fieldChanged as keyof AssetRecord)) {
+      state[change.fieldChanged] = deserializeHistoryValue(change.fieldChanged, change.oldValue);
+    }
+  }
+
+  return state as AssetState;
+};
+
+/**
+ * A history entry of an asset together with the other entries written by the
+ * same change (one transaction shares one timestamp)
+ */
+export const getChangeSet = async (assetId: string, historyId: string): Promise<AssetHistoryEntry[]> => {
+  const db = getDatabase();
+  const [entry] = await db.select()
+    .from(assetHistory)
+    .where(and(eq(assetHistory.id, historyId), eq(assetHistory.assetId, assetId)))
+    .limit(1);
+
+  if (!entry) {
+    return [];
+  }
+
+  // Compared in SQL: JavaScript dates drop the microseconds Postgres keeps
+  return db.select()
+    .from(assetHistory)
+    .where(and(
+      eq(assetHistory.assetId, assetId),
+      eq(assetHistory.action, entry.action),
+      sql`${assetHistory.createdAt} = (SELECT ${assetHistory.createdAt} FROM ${assetHistory} WHERE ${assetHistory.id} = ${historyId})`
+    ));
+};
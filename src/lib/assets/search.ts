@@ -0,0 +1,90 @@
+/**
+ * Asset Search
+ *
+ * Full-text search over the generated `assets.search_vector` document. Each
+ * word of the search is matched in English, French and unstemmed ('simple')
+ * form, so "chaussures", "running" and serial numbers all find their assets.
+ * The last word is matched as a prefix for search-as-you-type.
+ */
+
+import { getTableColumns, sql, type SQL, type SQLWrapper } from 'drizzle-orm';
+import { assets } from '../db.js';
+
+export interface AssetSearch {
+  // Boolean condition matching the search
+  condition: SQL;
+  // Relevance, higher is better (name > brand/model/serial > tags > description/notes)
+  rank: SQL<number>;
+  // HTML-escaped name with the matched words wrapped in <mark>
+  highlightedName: SQL<string>;
+  // HTML-escaped description/notes excerpt around the matched words, or null without text
+  snippet: SQL<string | null>;
+}
+
+export interface AssetSearchOptions {
+  // Match the last word as a prefix (default true)
+  prefix?: boolean;
+}
+
+// Everything but the search document, which is large and of no use to clients
+const { searchVector: _searchVector, ...clientAssetColumns } = getTableColumns(assets);
+
+/**
+ * Asset columns for selects and returning() whose rows are sent to clients
+ */
+export const assetColumns = clientAssetColumns;
+
+// Words beyond this are ignored
+const MAX_SEARCH_TERMS = 8;
+
+// Highlights use the words as typed, which suits both languages
+const HEADLINE_OPTIONS = 'StartSel=<mark>, StopSel=</mark>, MaxWords=25, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "';
+
+/**
+ * Search words from user input. Anything but letters and digits separates
+ * words, which also strips tsquery operators.
+ */
+export const parseSearchTerms = (input: string): string[] =>
+  input
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((term) => term.length > 0)
+    .slice(0, MAX_SEARCH_TERMS);
+
+/**
+ * Text with HTML special characters escaped, so that the <mark> tags added by
+ * ts_headline are the only markup in highlights of user-entered text
+ */
+const escapeHtml = (text: SQLWrapper): SQL =>
+  sql`replace(replace(replace(replace(replace(${text}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+
+/**
+ * One word in every configuration of the search document
+ */
+const termQuery = (term: string): SQL =>
+  sql`(to_tsquery('english', ${term}) || to_tsquery('french', ${term}) || to_tsquery('simple', ${term}))`;
+
+/**
+ * Full-text search expressions for user input, or null when it has no words.
+ * Every word must match.
+ */
+export const buildAssetSearch = (input: string, options: AssetSearchOptions = {}): AssetSearch | null => {
+  const terms = parseSearchTerms(input);
+  if (terms.length === 0) {
+    return null;
+  }
+
+  const prefix = options.prefix ?? true;
+  const lastIndex = terms.length - 1;
+  const query = sql`(${sql.join(
+    terms.map((term, index) => termQuery(prefix && index === lastIndex ? `${term}:*` : term)),
+    sql` && `
+  )})`;
+
+  return {
+    condition: sql`${assets.searchVector} @@ ${query}`,
+    rank: sql<number>`ts_rank(${assets.searchVector}, ${query})`,
+    highlightedName: sql<string>`ts_headline('simple', ${escapeHtml(assets.name)}, ${query}, 'HighlightAll=true, StartSel=<mark>, StopSel=</mark>')`,
+    snippet: sql<string | null>`ts_headline('simple', ${escapeHtml(sql`NULLIF(concat_ws(' ', ${assets.description}, ${assets.notes}), '')`)}, ${query}, ${HEADLINE_OPTIONS})`,
+  };
+};
@@ -0,0 +1,244 @@
+/**
+ * Asset Trash
+ *
+ * Soft-deleted assets stay in the trash, restorable, for a retention period
+ * set per organization (`settings.trashRetentionDays`, 30 days by default and
+ * for personal assets). Afterwards the purge worker deletes them for good
+ * together with their valuations, listings and history.
+ */
+
+import { and, eq, inArray, isNotNull, lte, or, sql } from 'drizzle-orm';
+import {
+  getDatabase,
+  assets,
+  assetValuations,
+  assetListings,
+  assetHistory,
+  notifications,
+  organizations,
+  transactions
+} from '../db.js';
+
+export interface PurgeResult {
+  valuations: number;
+  listings: number;
+  history: number;
+}
+
+export interface TrashPurgeWorkerOptions {
+  intervalMs: number;
+  batchSize: number;
+}
+
+export interface TrashPurgeRunStats {
+  startedAt: Date;
+  finishedAt: Date | null;
+  expired: number;
+  purged: number;
+  // Restored since they were found
+  skipped: number;
+  failed: number;
+  errors: { assetId: string; message: string }[];
+}
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const DEFAULT_TRASH_PURGE_WORKER_OPTIONS: TrashPurgeWorkerOptions = {
+  intervalMs: 60 * 60 * 1000, // 1 hour
+  batchSize: 100,
+};
+
+// Errors kept on the last run stats
+const MAX_REPORTED_ERRORS = 20;
+
+/**
+ * Retention period of the asset's organization in days. Needs `organizations`
+ * left-joined on the asset.
+ */
+export const trashRetentionDaysSql = sql<number>`(CASE
+  WHEN ${organizations.settings}->>'trashRetentionDays' ~ '^[0-9]+$'
+  THEN (${organizations.settings}->>'trashRetentionDays')::int
+  ELSE ${sql.raw(String(DEFAULT_TRASH_RETENTION_DAYS))}
+END)`;
+
+/**
+ * When a trashed asset gets purged. Needs `organizations` left-joined on the asset.
+ */
+export const purgeAtSql = sql<Date>`(${assets.deletedAt} + make_interval(days => ${trashRetentionDaysSql}))`;
+
+/**
+ * Delete a trashed asset permanently with its valuations, listings and
+ * history. Sales transactions are financial records: they are kept, detached
+ * from the asset and its listings. Returns null, deleting nothing, when the
+ * asset is not (or no longer) in the trash.
+ */
+export const purgeAsset = async (assetId: string): Promise<PurgeResult | null> => {
+  const db = getDatabase();
+
+  return db.transaction(async (tx) => {
+    // Lock the row so a concurrent restore either lands first or waits
+    const [trashed] = await tx.select({ id: assets.id })
+      .from(assets)
+      .where(and(eq(assets.id, assetId), isNotNull(assets.deletedAt)))
+      .for('update');
+
+    if (!trashed) {
+      return null;
+    }
+
+    const listingIds = (await tx.select({ id: assetListings.id })
+      .from(assetListings)
+      .where(eq(assetListings.assetId, assetId)))
+      .map((listing) => listing.id);
+
+    await tx.update(transactions)
+      .set({ assetId: null, listingId: null })
+      .where(listingIds.length > 0
+        ? or(eq(transactions.assetId, assetId), inArray(transactions.listingId, listingIds))
+        : eq(transactions.assetId, assetId));
+
+    await tx.delete(notifications).where(eq(notifications.assetId, assetId));
+
+    const valuations = await tx.delete(assetValuations)
+      .where(eq(assetValuations.assetId, assetId))
+      .returning({ id: assetValuations.id });
+    const listings = await tx.delete(assetListings)
+      .where(eq(assetListings.assetId, assetId))
+      .returning({ id: assetListings.id });
+    const history = await tx.delete(assetHistory)
+      .where(eq(assetHistory.assetId, assetId))
+      .returning({ id: assetHistory.id });
+
+    await tx.delete(assets).where(and(eq(assets.id, assetId), isNotNull(assets.deletedAt)));
+
+    return {
+      valuations: valuations.length,
+      listings: listings.length,
+      history: history.length,
+    };
+  });
+};
+
+/**
+ * Trashed assets whose retention period is over
+ */
+const findExpiredAssetIds = async (now: Date, limit: number): Promise<string[]> => {
+  const db = getDatabase();
+
+  const rows = await db.select({ id: assets.id })
+    .from(assets)
+    .leftJoin(organizations, eq(assets.organizationId, organizations.id))
+    .where(and(
+      isNotNull(assets.deletedAt),
+      lte(purgeAtSql, now)
+    ))
+    .limit(limit);
+
+  return rows.map((row) => row.id);
+};
+
+let options: TrashPurgeWorkerOptions = { ...DEFAULT_TRASH_PURGE_WORKER_OPTIONS };
+let timer: NodeJS.Timeout | null = null;
+let currentRun: Promise<TrashPurgeRunStats> | null = null;
+let totalPurged = 0;
+let lastRun: TrashPurgeRunStats | null = null;
+
+const executeRun = async (): Promise<TrashPurgeRunStats> => {
+  const run: TrashPurgeRunStats = {
+    startedAt: new Date(),
+    finishedAt: null,
+    expired: 0,
+    purged: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+  lastRun = run;
+
+  try {
+    const assetIds = await findExpiredAssetIds(run.startedAt, options.batchSize);
+    run.expired = assetIds.length;
+
+    for (const assetId of assetIds) {
+      try {
+        if (await purgeAsset(assetId)) {
+          run.purged++;
+        } else {
+          run.skipped++;
+        }
+      } catch (error) {
+        run.failed++;
+        if (run.errors.length < MAX_REPORTED_ERRORS) {
+          run.errors.push({
+            assetId,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+      }
+    }
+  } catch (error) {
+    console.error('Trash purge run error:', error);
+    run.errors.push({
+      assetId: '',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  run.finishedAt = new Date();
+  totalPurged += run.purged;
+
+  return run;
+};
+
+/**
+ * Run one purge pass now. If a pass is already in progress, waits for it instead.
+ */
+export const runTrashPurge = async (): Promise<TrashPurgeRunStats> => {
+  if (!currentRun) {
+    currentRun = executeRun().finally(() => {
+      currentRun = null;
+    });
+  }
+
+  return currentRun;
+};
+
+/**
+ * Start the periodic purge loop
+ */
+export const startTrashPurgeWorker = (overrides: Partial<TrashPurgeWorkerOptions> = {}) => {
+  if (timer) {
+    return;
+  }
+
+  options = { ...DEFAULT_TRASH_PURGE_WORKER_OPTIONS, ...overrides };
+  timer = setInterval(() => {
+    runTrashPurge().catch((error) => {
+      console.error('Trash purge worker error:', error);
+    });
+  }, options.intervalMs);
+
+  // Don't keep the process alive just for the worker
+  timer.unref();
+};
+
+/**
+ * Stop the periodic purge loop (an in-flight pass is allowed to finish)
+ */
+export const stopTrashPurgeWorker = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+
+/**
+ * Current worker state and run statistics
+ */
+export const getTrashPurgeStats = () => ({
+  enabled: timer !== null,
+  running: currentRun !== null,
+  options,
+  totalPurged,
+  lastRun,
+});
@@ -10,6 +10,7 @@ import { sign, verify } from 'hono/jwt';
 export const JWT_ALGORITHM = 'HS256' as const;
 export const ACCESS_TOKEN_EXPIRES_IN = 60 * 15; // 15 minutes
 export const REFRESH_TOKEN_EXPIRES_IN = 60 * 60 * 24 * 7; // 7 days
+export const EMAIL_VERIFICATION_TOKEN_EXPIRES_IN = 60 * 60 * 24 * 2; // 2 days
 
 // JWT algorithm type for better type safety
 export type JWTAlgorithm = typeof JWT_ALGORITHM;
@@ -18,7 +19,7 @@ export interface UserJWTPayload {
   userId: string;
   email: string;
   type: 'personal' | 'professional';
-  tokenType: 'access' | 'refresh';
+  tokenType: 'access' | 'refresh' | 'email_verification';
   iat: number;
   exp: number;
   [key: string]: any; // Index signature for JWT compatibility
@@ -68,6 +69,29 @@ export const generateRefreshToken = async (
   return await sign(payload, secret, JWT_ALGORITHM);
 };
 
+/**
+ * Generate an email verification token. It is bound to the email it was sent
+ * to, so it stops working once the account's email changes.
+ */
+export const generateEmailVerificationToken = async (
+  userId: string,
+  email: string,
+  userType: 'personal' | 'professional',
+  secret: string
+): Promise<string> => {
+  const now = Math.floor(Date.now() / 1000);
+  const payload: UserJWTPayload = {
+    userId,
+    email,
+    type: userType,
+    tokenType: 'email_verification',
+    iat: now,
+    exp: now + EMAIL_VERIFICATION_TOKEN_EXPIRES_IN,
+  };
+
+  return await sign(payload, secret, JWT_ALGORITHM);
+};
+
 /**
  * Generate both access and refresh tokens
  */
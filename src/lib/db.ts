@@ -11,9 +11,10 @@ import {
   pgEnum,
   primaryKey,
   index,
-  unique
+  unique,
+  customType
 } from 'drizzle-orm/pg-core';
-import { relations } from 'drizzle-orm';
+import { relations, sql } from 'drizzle-orm';
 import { drizzle } from 'drizzle-orm/node-postgres';
 
 // Database instance - will be initialized in the main application
@@ -45,6 +46,7 @@ export const subscriptionStatusEnum = pgEnum('subscription_status', ['active', '
 export const planTypeEnum = pgEnum('plan_type', ['free', 'premium', 'starter', 'business', 'enterprise']);
 export const transactionStatusEnum = pgEnum('transaction_status', ['pending', 'completed', 'failed', 'refunded', 'cancelled']);
 export const transactionTypeEnum = pgEnum('transaction_type', ['sale', 'purchase', 'commission', 'subscription', 'refund']);
+export const outlierStatusEnum = pgEnum('outlier_status', ['clear', 'flagged', 'confirmed', 'dismissed']);
 
 // ============================================================================
 // AUTHENTICATION & USER MANAGEMENT
@@ -75,6 +77,7 @@ export const users = pgTable('users', {
   emailVerified: boolean('email_verified').default(false),
   emailVerifiedAt: timestamp('email_verified_at'),
   lastLoginAt: timestamp('last_login_at'), // Security tracking
+  reportingCurrency: varchar('reporting_currency', { length: 3 }).default('EUR'), // Totals are converted into this currency
   
   // Audit fields
   createdAt: timestamp('created_at').defaultNow().notNull(),
@@ -194,6 +197,34 @@ export const userOrganizations = pgTable('user_organizations', {
   roleIdx: index('user_organizations_role_idx').on(table.role),
 }));
 
+/**
+ * ORGANIZATION_INVITATIONS TABLE
+ * 
+ * Pending invitations to join an organization, addressed by email so people
+ * without an account can be invited. Only a SHA-256 hash of the token is
+ * stored; a token is usable once, until it expires.
+ */
+export const organizationInvitations = pgTable('organization_invitations', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  organizationId: uuid('organization_id').notNull().references(() => organizations.id, { onDelete: 'cascade' }),
+  email: varchar('email', { length: 255 }).notNull(), // Lowercased
+  role: userRoleEnum('role').notNull().default('viewer'),
+  tokenHash: varchar('token_hash', { length: 64 }).notNull().unique(),
+  invitedBy: uuid('invited_by').references(() => users.id, { onDelete: 'set null' }),
+  expiresAt: timestamp('expires_at').notNull(),
+  
+  // Outcome - at most one is set
+  acceptedAt: timestamp('accepted_at'),
+  acceptedBy: uuid('accepted_by').references(() => users.id, { onDelete: 'set null' }),
+  declinedAt: timestamp('declined_at'),
+  revokedAt: timestamp('revoked_at'),
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  orgIdx: index('organization_invitations_org_idx').on(table.organizationId),
+  emailIdx: index('organization_invitations_email_idx').on(table.email),
+}));
+
 // ============================================================================
 // ASSET CATEGORIES & TAXONOMY
 // Hierarchical categorization system for all resellable goods
@@ -260,6 +291,12 @@ export const assetCategories = pgTable('asset_categories', {
  * This implements the core concept: "register purchases with original price 
  * and date, then continuously calculate estimated resale value."
  */
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return 'tsvector';
+  },
+});
+
 export const assets = pgTable('assets', {
   id: uuid('id').primaryKey().defaultRandom(),
   userId: uuid('user_id').notNull().references(() => users.id, { onDelete: 'cascade' }),
@@ -291,6 +328,8 @@ export const assets = pgTable('assets', {
   location: varchar('location', { length: 255 }), // Physical location/office
   accountingDepreciationPeriod: integer('accounting_depreciation_period'), // Months for book value
   assetTag: varchar('asset_tag', { length: 50 }), // Physical asset tag number
+  reviewFlaggedAt: timestamp('review_flagged_at'), // Set when the assignment needs attention (e.g. assignee left)
+  reviewReason: varchar('review_reason', { length: 255 }),
   
   // Asset lifecycle
   status: assetStatusEnum('status').default('active'),
@@ -308,6 +347,20 @@ export const assets = pgTable('assets', {
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
   createdBy: uuid('created_by').references(() => users.id), // Who added this asset
   deletedAt: timestamp('deleted_at'), // Soft delete
+
+  // Full-text search document, stemmed in English and French. Identifiers
+  // (name, brand, model, serial number, tags) are also indexed unstemmed
+  // ('simple') so exact and prefix matches work in any language.
+  // Weights: A name, B brand/model/serial, C tags, D description/notes
+  searchVector: tsvector('search_vector').generatedAlwaysAs(sql`
+    setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('french', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("brand", '') || ' ' || coalesce("model", '') || ' ' || coalesce("serial_number", '')), 'B') ||
+    setweight(jsonb_to_tsvector('simple', coalesce("tags", '[]'::jsonb), '["string"]'), 'C') ||
+    setweight(to_tsvector('english', coalesce("description", '') || ' ' || coalesce("notes", '')), 'D') ||
+    setweight(to_tsvector('french', coalesce("description", '') || ' ' || coalesce("notes", '')), 'D')
+  `),
 }, (table) => ({
   userIdx: index('assets_user_idx').on(table.userId),
   orgIdx: index('assets_org_idx').on(table.organizationId),
@@ -318,6 +371,7 @@ export const assets = pgTable('assets', {
   plannedSaleDateIdx: index('assets_planned_sale_date_idx').on(table.plannedSaleDate),
   brandModelIdx: index('assets_brand_model_idx').on(table.brand, table.model),
   deletedIdx: index('assets_deleted_idx').on(table.deletedAt),
+  searchIdx: index('assets_search_idx').using('gin', table.searchVector),
 }));
 
 // ============================================================================
@@ -373,6 +427,44 @@ export const assetValuations = pgTable('asset_valuations', {
   nextUpdateIdx: index('valuations_next_update_idx').on(table.nextUpdateAt),
 }));
 
+/**
+ * VALUATION_BACKTESTS TABLE
+ * 
+ * Accuracy of the valuation engine measured against real outcomes: for every
+ * sold asset, the last valuation before the sale is compared with the actual
+ * sale price. One row per category per backtest run (categoryId null holds the
+ * run-wide totals), used to tune category depreciation profiles.
+ * 
+ * Metrics:
+ * - MAPE: mean absolute percentage error of the realistic estimate
+ * - Bias: mean signed percentage error (positive = overestimation)
+ * - Band hit rate: share of sales inside the pessimistic-optimistic range
+ */
+export const valuationBacktests = pgTable('valuation_backtests', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  runId: uuid('run_id').notNull(), // Groups the rows of one backtest run
+  categoryId: uuid('category_id').references(() => assetCategories.id, { onDelete: 'cascade' }),
+  
+  // Sales window covered by the run
+  periodStart: timestamp('period_start'),
+  periodEnd: timestamp('period_end'),
+  
+  // Accuracy metrics
+  sampleSize: integer('sample_size').notNull(),
+  mape: decimal('mape', { precision: 8, scale: 4 }), // 0.1250 = 12.5%
+  bias: decimal('bias', { precision: 8, scale: 4 }),
+  bandHitRate: decimal('band_hit_rate', { precision: 5, scale: 4 }),
+  
+  // Profile in use at run time and per-category diagnostics
+  details: jsonb('details'), // {depreciationProfile, medianHoldingYears, ...}
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  runIdx: index('valuation_backtests_run_idx').on(table.runId),
+  categoryIdx: index('valuation_backtests_category_idx').on(table.categoryId),
+  createdAtIdx: index('valuation_backtests_created_at_idx').on(table.createdAt),
+}));
+
 /**
  * MARKET_DATA_SOURCES TABLE
  * 
@@ -400,6 +492,10 @@ export const marketDataSources = pgTable('market_data_sources', {
   lastSyncAt: timestamp('last_sync_at'),
   lastErrorAt: timestamp('last_error_at'),
   errorCount: integer('error_count').default(0),
+  // Unfinished sync (page limit, rate limit or error): the adapter cursor to
+  // resume from, and when that sync started (the next lastSyncAt)
+  syncCursor: text('sync_cursor'),
+  syncStartedAt: timestamp('sync_started_at'),
   
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
@@ -413,6 +509,13 @@ export const marketDataSources = pgTable('market_data_sources', {
  * 
  * Supports "automated data collection" and "historical depreciation analysis"
  * by storing both listing prices and actual sale prices over time.
+ * 
+ * A listing is identified by (sourceId, externalId) so repeated imports of
+ * the same marketplace dump update existing rows instead of duplicating them.
+ * 
+ * Implausible prices are flagged by the outlier pass rather than deleted:
+ * 'flagged' (detected) and 'confirmed' (admin) points are left out of
+ * valuations, 'dismissed' points are kept despite looking unusual.
  */
 export const marketDataPoints = pgTable('market_data_points', {
   id: uuid('id').primaryKey().defaultRandom(),
@@ -442,6 +545,14 @@ export const marketDataPoints = pgTable('market_data_points', {
   url: text('url'),
   specifications: jsonb('specifications'), // Detailed product specs
   
+  // Data quality - outlier detection and admin review
+  outlierStatus: outlierStatusEnum('outlier_status').default('clear').notNull(),
+  outlierReason: text('outlier_reason'),
+  outlierScore: decimal('outlier_score', { precision: 8, scale: 2 }), // Robust z-score of the price
+  outlierCheckedAt: timestamp('outlier_checked_at'),
+  outlierReviewedBy: uuid('outlier_reviewed_by').references(() => users.id),
+  outlierReviewedAt: timestamp('outlier_reviewed_at'),
+  
   createdAt: timestamp('created_at').defaultNow().notNull(),
 }, (table) => ({
   sourceIdx: index('market_data_source_idx').on(table.sourceId),
@@ -450,6 +561,101 @@ export const marketDataPoints = pgTable('market_data_points', {
   brandModelIdx: index('market_data_brand_model_idx').on(table.brand, table.model),
   soldDateIdx: index('market_data_sold_date_idx').on(table.soldDate),
   priceIdx: index('market_data_price_idx').on(table.listingPrice),
+  outlierStatusIdx: index('market_data_outlier_status_idx').on(table.outlierStatus),
+  sourceExternalUnique: unique('market_data_source_external_unique').on(table.sourceId, table.externalId),
+}));
+
+/**
+ * BRANDS TABLE
+ * 
+ * Canonical brand dictionary used to normalize the free-text brand and model
+ * of assets and market data, so "APPLE", "Apple Inc." and "apple" all match
+ * the same comparables.
+ */
+export const brands = pgTable('brands', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  name: varchar('name', { length: 100 }).notNull().unique(), // Canonical spelling
+  slug: varchar('slug', { length: 100 }).notNull().unique(),
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
+/**
+ * BRAND_ALIASES TABLE
+ * 
+ * Alternative spellings of a brand. Aliases are stored as normalized keys
+ * (lowercase, accents and punctuation removed).
+ */
+export const brandAliases = pgTable('brand_aliases', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  brandId: uuid('brand_id').notNull().references(() => brands.id, { onDelete: 'cascade' }),
+  alias: varchar('alias', { length: 100 }).notNull().unique(),
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  brandIdx: index('brand_aliases_brand_idx').on(table.brandId),
+}));
+
+/**
+ * MODEL_ALIASES TABLE
+ * 
+ * Maps a tokenized model key ("iphone 14 pro") to its canonical display name
+ * ("iPhone 14 Pro") within a brand.
+ */
+export const modelAliases = pgTable('model_aliases', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  brandId: uuid('brand_id').notNull().references(() => brands.id, { onDelete: 'cascade' }),
+  alias: varchar('alias', { length: 100 }).notNull(), // Normalized model key
+  canonicalModel: varchar('canonical_model', { length: 100 }).notNull(),
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+}, (table) => ({
+  brandAliasUnique: unique('model_aliases_brand_alias_unique').on(table.brandId, table.alias),
+}));
+
+/**
+ * FX_RATES TABLE
+ * 
+ * Historical daily exchange rates (1 base = rate quote), loaded from rate
+ * files or the admin API. Amounts are converted at the rate of the day they
+ * refer to (purchase date, sale date, valuation date), so totals mixing
+ * EUR, USD and GBP assets add up in a single reporting currency.
+ */
+export const fxRates = pgTable('fx_rates', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  rateDate: timestamp('rate_date').notNull(), // UTC midnight of the day the rate applies to
+  baseCurrency: varchar('base_currency', { length: 3 }).notNull(),
+  quoteCurrency: varchar('quote_currency', { length: 3 }).notNull(),
+  rate: decimal('rate', { precision: 18, scale: 8 }).notNull(),
+  source: varchar('source', { length: 50 }), // ecb, manual, etc.
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  pairDateUnique: unique('fx_rates_pair_date_unique').on(table.baseCurrency, table.quoteCurrency, table.rateDate),
+  dateIdx: index('fx_rates_date_idx').on(table.rateDate),
+}));
+
+/**
+ * CPI_INDICES TABLE
+ * 
+ * Monthly consumer price index series, loaded offline from statistics office
+ * files. A series is keyed by area: a currency code (EUR for the euro area
+ * HICP) or a country code. Used to restate purchase prices in today's money
+ * and to split depreciation into real and nominal terms.
+ */
+export const cpiIndices = pgTable('cpi_indices', {
+  id: uuid('id').primaryKey().defaultRandom(),
+  area: varchar('area', { length: 3 }).notNull(), // EUR, USD, GBP or FR, DE, ...
+  period: timestamp('period').notNull(), // First day of the month (UTC)
+  indexValue: decimal('index_value', { precision: 12, scale: 4 }).notNull(),
+  source: varchar('source', { length: 50 }), // eurostat, bls, ons, etc.
+  
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  areaPeriodUnique: unique('cpi_indices_area_period_unique').on(table.area, table.period),
 }));
 
 // ============================================================================
@@ -888,6 +1094,7 @@ export const usersRelations = relations(users, ({ many }) => ({
 
 export const organizationsRelations = relations(organizations, ({ many }) => ({
   users: many(userOrganizations),
+  invitations: many(organizationInvitations),
   assets: many(assets),
   subscriptions: many(userSubscriptions),
   notifications: many(notifications),
@@ -908,6 +1115,17 @@ export const userOrganizationsRelations = relations(userOrganizations, ({ one })
   }),
 }));
 
+export const organizationInvitationsRelations = relations(organizationInvitations, ({ one }) => ({
+  organization: one(organizations, {
+    fields: [organizationInvitations.organizationId],
+    references: [organizations.id],
+  }),
+  invitedByUser: one(users, {
+    fields: [organizationInvitations.invitedBy],
+    references: [users.id],
+  }),
+}));
+
 export const assetCategoriesRelations = relations(assetCategories, ({ many, one }) => ({
   assets: many(assets),
   parent: one(assetCategories, {
@@ -953,6 +1171,13 @@ export const assetValuationsRelations = relations(assetValuations, ({ one }) =>
   }),
 }));
 
+export const valuationBacktestsRelations = relations(valuationBacktests, ({ one }) => ({
+  category: one(assetCategories, {
+    fields: [valuationBacktests.categoryId],
+    references: [assetCategories.id],
+  }),
+}));
+
 export const marketDataSourcesRelations = relations(marketDataSources, ({ many }) => ({
   dataPoints: many(marketDataPoints),
 }));
@@ -966,6 +1191,29 @@ export const marketDataPointsRelations = relations(marketDataPoints, ({ one }) =
     fields: [marketDataPoints.categoryId],
     references: [assetCategories.id],
   }),
+  outlierReviewer: one(users, {
+    fields: [marketDataPoints.outlierReviewedBy],
+    references: [users.id],
+  }),
+}));
+
+export const brandsRelations = relations(brands, ({ many }) => ({
+  aliases: many(brandAliases),
+  modelAliases: many(modelAliases),
+}));
+
+export const brandAliasesRelations = relations(brandAliases, ({ one }) => ({
+  brand: one(brands, {
+    fields: [brandAliases.brandId],
+    references: [brands.id],
+  }),
+}));
+
+export const modelAliasesRelations = relations(modelAliases, ({ one }) => ({
+  brand: one(brands, {
+    fields: [modelAliases.brandId],
+    references: [brands.id],
+  }),
 }));
 
 export const platformsRelations = relations(platforms, ({ many }) => ({
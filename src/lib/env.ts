@@ -11,6 +11,16 @@ export type Bindings = {
   FRONTEND_URL: string;
   NODE_ENV: string;
   PORT: string;
+  ADMIN_EMAILS?: string;
+  TRUST_PROXY?: string;
+  VALUATION_REFRESH_ENABLED?: string;
+  VALUATION_REFRESH_INTERVAL_MS?: string;
+  VALUATION_REFRESH_BATCH_SIZE?: string;
+  VALUATION_REFRESH_CONCURRENCY?: string;
+  MARKET_DATA_FIXTURES_DIR?: string;
+  TRASH_PURGE_ENABLED?: string;
+  TRASH_PURGE_INTERVAL_MS?: string;
+  TRASH_PURGE_BATCH_SIZE?: string;
   EMAIL_HOST?: string;
   EMAIL_PORT?: string;
   EMAIL_USERNAME?: string;
@@ -0,0 +1,239 @@
+/**
+ * FX Rates Import
+ *
+ * Loads daily exchange rates from CSV or NDJSON files into fx_rates. Two
+ * layouts are accepted:
+ * - long: one rate per row with date, base, quote and rate columns
+ * - wide (ECB reference rates): a date column plus one column per quote
+ *   currency, all against the same base currency
+ */
+
+import { sql } from 'drizzle-orm';
+import { getDatabase, fxRates } from '../db.js';
+import { parseCsv, parseNdjson } from '../market-data/parsers.js';
+import { DEFAULT_CURRENCY, isCurrencyCode, normalizeCurrency, startOfUtcDay } from './rates.js';
+
+export type FxImportFormat = 'csv' | 'ndjson';
+
+export interface FxImportOptions {
+  dryRun: boolean;
+  // Base currency of wide files (defaults to EUR, as in ECB files)
+  base?: string;
+  // Recorded on every imported rate
+  source?: string;
+}
+
+export interface FxImportReport {
+  format: FxImportFormat;
+  dryRun: boolean;
+  totalRows: number;
+  rates: number;
+  inserted: number;
+  updated: number;
+  currencies: string[];
+  period: { from: Date; to: Date } | null;
+  errors: { line: number; errors: string[] }[];
+}
+
+interface ParsedRate {
+  rateDate: Date;
+  baseCurrency: string;
+  quoteCurrency: string;
+  rate: number;
+}
+
+// Upper bound on rates accepted in a single import (about 25 years of ECB rates for 20 currencies)
+export const MAX_FX_IMPORT_RATES = 200000;
+// Rates per INSERT statement
+const INSERT_CHUNK_SIZE = 1000;
+
+// Accepted column names (compared lowercase without separators) for long files
+const COLUMN_ALIASES: Record<string, 'date' | 'base' | 'quote' | 'rate'> = {
+  date: 'date',
+  ratedate: 'date',
+  day: 'date',
+  timeperiod: 'date',
+  base: 'base',
+  basecurrency: 'base',
+  from: 'base',
+  quote: 'quote',
+  quotecurrency: 'quote',
+  currency: 'quote',
+  to: 'quote',
+  rate: 'rate',
+  value: 'rate',
+  obsvalue: 'rate',
+};
+
+// Placeholders for days without a rate in published files
+const MISSING_VALUES = new Set(['', 'n/a', 'na', '-', 'null']);
+
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const parseRateDate = (value: unknown): Date | null => {
+  if (typeof value !== 'string' && typeof value !== 'number') return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : startOfUtcDay(date);
+};
+
+const parseRateValue = (value: unknown): number | null | 'missing' => {
+  if (value === null || value === undefined) return 'missing';
+  if (typeof value === 'string' && MISSING_VALUES.has(value.trim().toLowerCase())) return 'missing';
+  const rate = typeof value === 'number' ? value : Number(String(value).trim());
+  return Number.isFinite(rate) && rate > 0 ? rate : null;
+};
+
+/**
+ * Rates of one parsed record, in either layout
+ */
+const ratesFromRecord = (
+  values: Record<string, unknown>,
+  wideBase: string
+): { rates: ParsedRate[]; errors: string[] } => {
+  const fields: Partial<Record<'date' | 'base' | 'quote' | 'rate', unknown>> = {};
+  const currencyColumns: [string, unknown][] = [];
+
+  for (const [name, value] of Object.entries(values)) {
+    const alias = COLUMN_ALIASES[columnKey(name)];
+    if (alias) {
+      fields[alias] = value;
+    } else if (isCurrencyCode(name.trim().toUpperCase())) {
+      currencyColumns.push([name.trim().toUpperCase(), value]);
+    }
+  }
+
+  const rateDate = parseRateDate(fields.date);
+  if (!rateDate) {
+    return { rates: [], errors: ['date: missing or invalid'] };
+  }
+
+  // Long layout: one rate per record
+  if (fields.rate !== undefined) {
+    const errors: string[] = [];
+    const baseCurrency = normalizeCurrency(typeof fields.base === 'string' ? fields.base : null, wideBase);
+    const quoteCurrency = typeof fields.quote === 'string' ? normalizeCurrency(fields.quote) : '';
+    const rate = parseRateValue(fields.rate);
+
+    if (!isCurrencyCode(baseCurrency)) errors.push('base: must be a three-letter currency code');
+    if (!isCurrencyCode(quoteCurrency)) errors.push('quote: must be a three-letter currency code');
+    if (baseCurrency === quoteCurrency) errors.push('quote: must differ from the base currency');
+    if (rate === null || rate === 'missing') errors.push('rate: must be a positive number');
+
+    return errors.length > 0 || typeof rate !== 'number'
+      ? { rates: [], errors }
+      : { rates: [{ rateDate, baseCurrency, quoteCurrency, rate }], errors };
+  }
+
+  // Wide layout: one rate per currency column against the base
+  if (currencyColumns.length === 0) {
+    return { rates: [], errors: ['rate: no rate or currency columns found'] };
+  }
+
+  const rates: ParsedRate[] = [];
+  const errors: string[] = [];
+  for (const [quoteCurrency, value] of currencyColumns) {
+    if (quoteCurrency === wideBase) continue;
+    const rate = parseRateValue(value);
+    if (rate === 'missing') continue;
+    if (rate === null) {
+      errors.push(`${quoteCurrency}: must be a positive number`);
+      continue;
+    }
+    rates.push({ rateDate, baseCurrency: wideBase, quoteCurrency, rate });
+  }
+
+  return { rates, errors };
+};
+
+/**
+ * Import rates from a CSV or NDJSON file. Rates already stored for the same
+ * pair and day are overwritten.
+ */
+export const importFxRates = async (
+  text: string,
+  format: FxImportFormat,
+  options: FxImportOptions
+): Promise<FxImportReport> => {
+  const wideBase = normalizeCurrency(options.base, DEFAULT_CURRENCY);
+  if (!isCurrencyCode(wideBase)) {
+    throw new TypeError(`Invalid base currency: ${options.base}`);
+  }
+
+  const parsed = format === 'csv' ? parseCsv(text) : parseNdjson(text);
+  const errors: FxImportReport['errors'] = parsed.errors.map((error) => ({ line: error.line, errors: [error.message] }));
+
+  // Later rows win when a file repeats a pair and day
+  const ratesByKey = new Map<string, ParsedRate>();
+  for (const record of parsed.records) {
+    const result = ratesFromRecord(record.values, wideBase);
+    if (result.errors.length > 0) {
+      errors.push({ line: record.line, errors: result.errors });
+    }
+    for (const rate of result.rates) {
+      ratesByKey.set(`${rate.baseCurrency}/${rate.quoteCurrency}/${rate.rateDate.getTime()}`, rate);
+    }
+  }
+
+  const rates = [...ratesByKey.values()];
+  if (rates.length > MAX_FX_IMPORT_RATES) {
+    throw new RangeError(`Too many rates: at most ${MAX_FX_IMPORT_RATES} can be imported at once`);
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+
+  const times = rates.map((rate) => rate.rateDate.getTime());
+  const firstTime = times.reduce((min, time) => Math.min(min, time), Infinity);
+  const lastTime = times.reduce((max, time) => Math.max(max, time), -Infinity);
+  const currencies = [...new Set(rates.flatMap((rate) => [rate.baseCurrency, rate.quoteCurrency]))].sort();
+
+  const report: FxImportReport = {
+    format,
+    dryRun: options.dryRun,
+    totalRows: parsed.records.length + parsed.errors.length,
+    rates: rates.length,
+    inserted: 0,
+    updated: 0,
+    currencies,
+    period: rates.length > 0
+      ? { from: new Date(firstTime), to: new Date(lastTime) }
+      : null,
+    errors,
+  };
+
+  if (options.dryRun || rates.length === 0) {
+    return report;
+  }
+
+  const db = getDatabase();
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    for (let start = 0; start < rates.length; start += INSERT_CHUNK_SIZE) {
+      const chunk = rates.slice(start, start + INSERT_CHUNK_SIZE);
+      const results = await tx.insert(fxRates)
+        .values(chunk.map((rate) => ({
+          rateDate: rate.rateDate,
+          baseCurrency: rate.baseCurrency,
+          quoteCurrency: rate.quoteCurrency,
+          rate: rate.rate.toFixed(8),
+          source: options.source ?? null,
+        })))
+        .onConflictDoUpdate({
+          target: [fxRates.baseCurrency, fxRates.quoteCurrency, fxRates.rateDate],
+          set: {
+            rate: sql`excluded.rate`,
+            source: sql`excluded.source`,
+            updatedAt: now,
+          },
+        })
+        .returning({ inserted: sql<boolean>`(xmax = 0)` });
+
+      for (const result of results) {
+        if (result.inserted) report.inserted++;
+        else report.updated++;
+      }
+    }
+  });
+
+  return report;
+};
@@ -0,0 +1,45 @@
+/**
+ * FX Rates Loader
+ *
+ * Command line entry point for loading a rate file into fx_rates:
+ *   pnpm fx:load <file.csv|file.ndjson> [--base=EUR] [--source=ecb] [--dry-run]
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { initDatabase } from '../db.js';
+import { importFxRates } from './import.js';
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith('--'));
+  const base = args.find((arg) => arg.startsWith('--base='))?.split('=')[1];
+  const source = args.find((arg) => arg.startsWith('--source='))?.split('=')[1] ?? 'file';
+  const dryRun = args.includes('--dry-run');
+
+  (async () => {
+    try {
+      if (!file) {
+        throw new Error('Usage: fx:load <file.csv|file.ndjson> [--base=EUR] [--source=ecb] [--dry-run]');
+      }
+
+      const DATABASE_URL = process.env.DATABASE_URL;
+      if (!DATABASE_URL) {
+        throw new Error('DATABASE_URL environment variable is required');
+      }
+      initDatabase(DATABASE_URL);
+
+      const format = ['.ndjson', '.jsonl'].includes(extname(file).toLowerCase()) ? 'ndjson' : 'csv';
+      const report = await importFxRates(await readFile(file, 'utf8'), format, { dryRun, base, source });
+
+      console.log(`✅ ${dryRun ? 'Validated' : 'Loaded'} ${report.rates} rates (${report.inserted} new, ${report.updated} updated) for ${report.currencies.join(', ')}`);
+      for (const error of report.errors) {
+        console.warn(`⚠️  Line ${error.line}: ${error.errors.join('; ')}`);
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ FX rates load failed:', error);
+      process.exit(1);
+    }
+  })();
+}
@@ -0,0 +1,214 @@
+/**
+ * FX Rates
+ *
+ * Converts amounts between currencies at the rate of a given day, using the
+ * daily rates stored in fx_rates. Rates for a set of currencies are loaded
+ * into an in-memory converter, so an aggregate over many assets costs one
+ * query.
+ */
+
+import { eq, and, or, gte, lte, inArray, asc, desc } from 'drizzle-orm';
+import { getDatabase, fxRates, users, organizations } from '../db.js';
+
+export type FxRate = typeof fxRates.$inferSelect;
+
+export interface FxConverter {
+  // Units of `to` per unit of `from` on the given day, null when no rate connects them
+  rate: (from: string, to: string, at: Date) => number | null;
+  convert: (amount: number, from: string, to: string, at: Date) => number | null;
+}
+
+interface RatePoint {
+  time: number;
+  rate: number;
+}
+
+// Currency used when neither the record nor the user/organization sets one
+export const DEFAULT_CURRENCY = 'EUR';
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * Whether a string is an ISO 4217-style currency code (three uppercase letters)
+ */
+export const isCurrencyCode = (code: string): boolean => CURRENCY_PATTERN.test(code);
+
+/**
+ * Uppercased currency code, or the fallback when missing
+ */
+export const normalizeCurrency = (code: string | null | undefined, fallback: string = DEFAULT_CURRENCY): string =>
+  code?.trim().toUpperCase() || fallback;
+
+/**
+ * UTC midnight of the day a date falls on
+ */
+export const startOfUtcDay = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+/**
+ * Rate in effect on a day: the latest one published on or before it (rates
+ * are not published on weekends and holidays), or the earliest known rate
+ * for days before the series starts
+ */
+const rateOn = (series: RatePoint[], time: number): number => {
+  let low = 0;
+  let high = series.length - 1;
+  let found = -1;
+
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (series[middle].time <= time) {
+      found = middle;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+
+  return series[Math.max(0, found)].rate;
+};
+
+/**
+ * Build a converter from rate rows. Pairs are resolved directly, through the
+ * inverse pair, or across a shared third currency (USD -> GBP via EUR/USD
+ * and EUR/GBP).
+ */
+export const createFxConverter = (rows: Pick<FxRate, 'rateDate' | 'baseCurrency' | 'quoteCurrency' | 'rate'>[]): FxConverter => {
+  const seriesByPair = new Map<string, RatePoint[]>();
+  // Currency -> currencies it has a rate with, in either direction
+  const linked = new Map<string, Set<string>>();
+  const link = (a: string, b: string) => linked.set(a, (linked.get(a) ?? new Set<string>()).add(b));
+
+  for (const row of rows) {
+    const rate = parseFloat(row.rate);
+    if (!(rate > 0)) continue;
+
+    const key = `${row.baseCurrency}/${row.quoteCurrency}`;
+    const series = seriesByPair.get(key) ?? [];
+    series.push({ time: startOfUtcDay(row.rateDate).getTime(), rate });
+    seriesByPair.set(key, series);
+
+    link(row.baseCurrency, row.quoteCurrency);
+    link(row.quoteCurrency, row.baseCurrency);
+  }
+
+  for (const series of seriesByPair.values()) {
+    series.sort((a, b) => a.time - b.time);
+  }
+
+  const pairRate = (from: string, to: string, time: number): number | null => {
+    const direct = seriesByPair.get(`${from}/${to}`);
+    if (direct) return rateOn(direct, time);
+
+    const inverse = seriesByPair.get(`${to}/${from}`);
+    if (inverse) return 1 / rateOn(inverse, time);
+
+    return null;
+  };
+
+  const rate = (from: string, to: string, at: Date): number | null => {
+    const source = normalizeCurrency(from);
+    const target = normalizeCurrency(to);
+    if (source === target) return 1;
+
+    const time = startOfUtcDay(at).getTime();
+    const direct = pairRate(source, target, time);
+    if (direct !== null) return direct;
+
+    // Cross rate through a currency both are quoted against
+    for (const [pivot, neighbours] of linked) {
+      if (!neighbours.has(source) || !neighbours.has(target)) continue;
+      const sourceLeg = pairRate(pivot, source, time);
+      const targetLeg = pairRate(pivot, target, time);
+      if (sourceLeg !== null && targetLeg !== null) {
+        return targetLeg / sourceLeg;
+      }
+    }
+
+    return null;
+  };
+
+  return {
+    rate,
+    convert: (amount, from, to, at) => {
+      const value = rate(from, to, at);
+      return value === null ? null : amount * value;
+    },
+  };
+};
+
+/**
+ * Converter covering every pair that involves one of the given currencies,
+ * including the base currencies they are quoted against
+ */
+export const loadFxConverter = async (currencies: Iterable<string | null | undefined>): Promise<FxConverter> => {
+  const codes = [...new Set([...currencies].map((code) => normalizeCurrency(code)))];
+  if (codes.length < 2) {
+    return createFxConverter([]);
+  }
+
+  const db = getDatabase();
+  const rows = await db.select({
+    rateDate: fxRates.rateDate,
+    baseCurrency: fxRates.baseCurrency,
+    quoteCurrency: fxRates.quoteCurrency,
+    rate: fxRates.rate,
+  })
+  .from(fxRates)
+  .where(or(inArray(fxRates.baseCurrency, codes), inArray(fxRates.quoteCurrency, codes)))
+  .orderBy(asc(fxRates.rateDate));
+
+  return createFxConverter(rows);
+};
+
+/**
+ * Currency totals are reported in: the organization's `settings.currency`
+ * when scoped to an organization, otherwise the user's reporting currency
+ */
+export const resolveReportingCurrency = async (scope: { userId: string; organizationId?: string | null }): Promise<string> => {
+  const db = getDatabase();
+
+  if (scope.organizationId) {
+    const [organization] = await db.select({ settings: organizations.settings })
+      .from(organizations)
+      .where(eq(organizations.id, scope.organizationId))
+      .limit(1);
+
+    const settings = organization?.settings as { currency?: unknown } | null | undefined;
+    if (typeof settings?.currency === 'string' && isCurrencyCode(normalizeCurrency(settings.currency))) {
+      return normalizeCurrency(settings.currency);
+    }
+  }
+
+  const [user] = await db.select({ reportingCurrency: users.reportingCurrency })
+    .from(users)
+    .where(eq(users.id, scope.userId))
+    .limit(1);
+
+  return normalizeCurrency(user?.reportingCurrency);
+};
+
+/**
+ * Stored rates of one pair, newest first
+ */
+export const listFxRates = async (params: {
+  base: string;
+  quote: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}): Promise<FxRate[]> => {
+  const db = getDatabase();
+  const conditions = [
+    eq(fxRates.baseCurrency, params.base),
+    eq(fxRates.quoteCurrency, params.quote),
+  ];
+  if (params.from) conditions.push(gte(fxRates.rateDate, startOfUtcDay(params.from)));
+  if (params.to) conditions.push(lte(fxRates.rateDate, startOfUtcDay(params.to)));
+
+  return db.select()
+    .from(fxRates)
+    .where(and(...conditions))
+    .orderBy(desc(fxRates.rateDate))
+    .limit(params.limit);
+};
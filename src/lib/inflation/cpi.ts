@@ -0,0 +1,140 @@
+/**
+ * Consumer Price Indices
+ *
+ * Restates amounts paid in the past in today's money using the monthly CPI
+ * series stored in cpi_indices. Assets use the series of their purchase
+ * currency (the euro area HICP for EUR, US CPI-U for USD, ...).
+ */
+
+import { inArray, asc } from 'drizzle-orm';
+import { getDatabase, cpiIndices } from '../db.js';
+
+export type CpiIndex = typeof cpiIndices.$inferSelect;
+
+export interface CpiTable {
+  // Index in effect in the month of `at`, null when the area has no series
+  indexAt: (area: string, at: Date) => { period: Date; value: number } | null;
+  // `amount` spent at `from` expressed in money of `to`, null without a series
+  adjust: (amount: number, area: string, from: Date, to: Date) => number | null;
+}
+
+export interface InflationAdjustment {
+  area: string;
+  purchaseIndex: { period: Date; value: number };
+  currentIndex: { period: Date; value: number };
+  // Price level change between the two index periods (0.25 = +25%)
+  cumulativeInflation: number;
+  purchaseCostToday: number;
+}
+
+interface IndexPoint {
+  time: number;
+  value: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Uppercased area code (currency or country)
+ */
+export const normalizeArea = (area: string | null | undefined): string => area?.trim().toUpperCase() ?? '';
+
+/**
+ * First day of the month a date falls in (UTC)
+ */
+export const startOfUtcMonth = (date: Date): Date =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+/**
+ * Build a lookup table from CPI rows. A month without a published index uses
+ * the latest earlier one (recent months are published with a delay), and
+ * months before a series starts use its first index.
+ */
+export const createCpiTable = (rows: Pick<CpiIndex, 'area' | 'period' | 'indexValue'>[]): CpiTable => {
+  const seriesByArea = new Map<string, IndexPoint[]>();
+
+  for (const row of rows) {
+    const value = parseFloat(row.indexValue);
+    if (!(value > 0)) continue;
+
+    const series = seriesByArea.get(row.area) ?? [];
+    series.push({ time: startOfUtcMonth(row.period).getTime(), value });
+    seriesByArea.set(row.area, series);
+  }
+
+  for (const series of seriesByArea.values()) {
+    series.sort((a, b) => a.time - b.time);
+  }
+
+  const indexAt = (area: string, at: Date) => {
+    const series = seriesByArea.get(normalizeArea(area));
+    if (!series || series.length === 0) return null;
+
+    const time = startOfUtcMonth(at).getTime();
+    let point = series[0];
+    for (const candidate of series) {
+      if (candidate.time > time) break;
+      point = candidate;
+    }
+
+    return { period: new Date(point.time), value: point.value };
+  };
+
+  return {
+    indexAt,
+    adjust: (amount, area, from, to) => {
+      const start = indexAt(area, from);
+      const end = indexAt(area, to);
+      return start && end ? amount * (end.value / start.value) : null;
+    },
+  };
+};
+
+/**
+ * CPI table holding the series of the given areas
+ */
+export const loadCpiTable = async (areas: Iterable<string | null | undefined>): Promise<CpiTable> => {
+  const codes = [...new Set([...areas].map(normalizeArea))].filter(Boolean);
+  if (codes.length === 0) {
+    return createCpiTable([]);
+  }
+
+  const db = getDatabase();
+  const rows = await db.select({
+    area: cpiIndices.area,
+    period: cpiIndices.period,
+    indexValue: cpiIndices.indexValue,
+  })
+  .from(cpiIndices)
+  .where(inArray(cpiIndices.area, codes))
+  .orderBy(asc(cpiIndices.period));
+
+  return createCpiTable(rows);
+};
+
+/**
+ * Purchase price restated in money of `at`. Returns null when the area has
+ * no CPI series.
+ */
+export const adjustPurchaseCost = (
+  cpi: CpiTable,
+  purchase: { price: number; date: Date; area: string },
+  at: Date = new Date()
+): InflationAdjustment | null => {
+  const area = normalizeArea(purchase.area);
+  const purchaseIndex = cpi.indexAt(area, purchase.date);
+  const currentIndex = cpi.indexAt(area, at);
+  if (!purchaseIndex || !currentIndex) {
+    return null;
+  }
+
+  const factor = currentIndex.value / purchaseIndex.value;
+
+  return {
+    area,
+    purchaseIndex,
+    currentIndex,
+    cumulativeInflation: Math.round((factor - 1) * 10000) / 10000,
+    purchaseCostToday: round2(purchase.price * factor),
+  };
+};
@@ -0,0 +1,173 @@
+/**
+ * CPI Import
+ *
+ * Loads monthly consumer price index series from CSV or NDJSON files (one
+ * index per row: area, period, index) into cpi_indices.
+ */
+
+import { sql } from 'drizzle-orm';
+import { getDatabase, cpiIndices } from '../db.js';
+import { parseCsv, parseNdjson } from '../market-data/parsers.js';
+import { normalizeArea } from './cpi.js';
+
+export type CpiImportFormat = 'csv' | 'ndjson';
+
+export interface CpiImportOptions {
+  dryRun: boolean;
+  // Area for files without an area column
+  area?: string;
+  // Recorded on every imported index
+  source?: string;
+}
+
+export interface CpiImportReport {
+  format: CpiImportFormat;
+  dryRun: boolean;
+  totalRows: number;
+  indices: number;
+  inserted: number;
+  updated: number;
+  areas: string[];
+  errors: { line: number; errors: string[] }[];
+}
+
+interface ParsedIndex {
+  area: string;
+  period: Date;
+  indexValue: number;
+}
+
+// Rows per INSERT statement
+const INSERT_CHUNK_SIZE = 1000;
+
+// Currency (EUR) or country (FR, FRA) code
+const AREA_PATTERN = /^[A-Z]{2,3}$/;
+// "2024-01", "2024-01-31" or Eurostat's "2024M01"
+const PERIOD_PATTERN = /^(\d{4})(?:-|M)(\d{2})(?:-\d{2})?/;
+
+// Accepted column names (compared lowercase without separators) for each field
+const COLUMN_ALIASES: Record<string, 'area' | 'period' | 'index'> = {
+  area: 'area',
+  currency: 'area',
+  country: 'area',
+  geo: 'area',
+  period: 'period',
+  month: 'period',
+  date: 'period',
+  timeperiod: 'period',
+  index: 'index',
+  indexvalue: 'index',
+  cpi: 'index',
+  value: 'index',
+  obsvalue: 'index',
+};
+
+const columnKey = (name: string) => name.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const parsePeriod = (value: unknown): Date | null => {
+  if (typeof value !== 'string') return null;
+  const match = value.trim().match(PERIOD_PATTERN);
+  if (!match) return null;
+
+  const month = parseInt(match[2], 10);
+  return month >= 1 && month <= 12 ? new Date(Date.UTC(parseInt(match[1], 10), month - 1, 1)) : null;
+};
+
+const indexFromRecord = (
+  values: Record<string, unknown>,
+  defaultArea: string
+): { index: ParsedIndex | null; errors: string[] } => {
+  const fields: Partial<Record<'area' | 'period' | 'index', unknown>> = {};
+  for (const [name, value] of Object.entries(values)) {
+    const alias = COLUMN_ALIASES[columnKey(name)];
+    if (alias) fields[alias] = value;
+  }
+
+  const errors: string[] = [];
+  const area = typeof fields.area === 'string' ? normalizeArea(fields.area) : defaultArea;
+  const period = parsePeriod(fields.period);
+  const indexValue = typeof fields.index === 'number' ? fields.index : Number(String(fields.index ?? '').trim());
+
+  if (!AREA_PATTERN.test(area)) errors.push('area: must be a currency or country code');
+  if (!period) errors.push('period: must be a month (YYYY-MM)');
+  if (!Number.isFinite(indexValue) || indexValue <= 0 || fields.index === '') errors.push('index: must be a positive number');
+
+  return errors.length > 0 || !period
+    ? { index: null, errors }
+    : { index: { area, period, indexValue }, errors };
+};
+
+/**
+ * Import CPI series from a CSV or NDJSON file. Indices already stored for the
+ * same area and month are overwritten (statistics offices revise them).
+ */
+export const importCpiIndices = async (
+  text: string,
+  format: CpiImportFormat,
+  options: CpiImportOptions
+): Promise<CpiImportReport> => {
+  const defaultArea = normalizeArea(options.area);
+  const parsed = format === 'csv' ? parseCsv(text) : parseNdjson(text);
+  const errors: CpiImportReport['errors'] = parsed.errors.map((error) => ({ line: error.line, errors: [error.message] }));
+
+  // Later rows win when a file repeats an area and month
+  const indicesByKey = new Map<string, ParsedIndex>();
+  for (const record of parsed.records) {
+    const result = indexFromRecord(record.values, defaultArea);
+    if (result.index) {
+      indicesByKey.set(`${result.index.area}/${result.index.period.getTime()}`, result.index);
+    } else {
+      errors.push({ line: record.line, errors: result.errors });
+    }
+  }
+
+  errors.sort((a, b) => a.line - b.line);
+
+  const indices = [...indicesByKey.values()];
+  const report: CpiImportReport = {
+    format,
+    dryRun: options.dryRun,
+    totalRows: parsed.records.length + parsed.errors.length,
+    indices: indices.length,
+    inserted: 0,
+    updated: 0,
+    areas: [...new Set(indices.map((index) => index.area))].sort(),
+    errors,
+  };
+
+  if (options.dryRun || indices.length === 0) {
+    return report;
+  }
+
+  const db = getDatabase();
+  const now = new Date();
+
+  await db.transaction(async (tx) => {
+    for (let start = 0; start < indices.length; start += INSERT_CHUNK_SIZE) {
+      const chunk = indices.slice(start, start + INSERT_CHUNK_SIZE);
+      const results = await tx.insert(cpiIndices)
+        .values(chunk.map((index) => ({
+          area: index.area,
+          period: index.period,
+          indexValue: index.indexValue.toFixed(4),
+          source: options.source ?? null,
+        })))
+        .onConflictDoUpdate({
+          target: [cpiIndices.area, cpiIndices.period],
+          set: {
+            indexValue: sql`excluded.index_value`,
+            source: sql`excluded.source`,
+            updatedAt: now,
+          },
+        })
+        .returning({ inserted: sql<boolean>`(xmax = 0)` });
+
+      for (const result of results) {
+        if (result.inserted) report.inserted++;
+        else report.updated++;
+      }
+    }
+  });
+
+  return report;
+};
@@ -0,0 +1,45 @@
+/**
+ * CPI Loader
+ *
+ * Command line entry point for loading CPI series into cpi_indices:
+ *   pnpm cpi:load <file.csv|file.ndjson> [--area=EUR] [--source=eurostat] [--dry-run]
+ */
+
+import { readFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { initDatabase } from '../db.js';
+import { importCpiIndices } from './import.js';
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  const args = process.argv.slice(2);
+  const file = args.find((arg) => !arg.startsWith('--'));
+  const area = args.find((arg) => arg.startsWith('--area='))?.split('=')[1];
+  const source = args.find((arg) => arg.startsWith('--source='))?.split('=')[1] ?? 'file';
+  const dryRun = args.includes('--dry-run');
+
+  (async () => {
+    try {
+      if (!file) {
+        throw new Error('Usage: cpi:load <file.csv|file.ndjson> [--area=EUR] [--source=eurostat] [--dry-run]');
+      }
+
+      const DATABASE_URL = process.env.DATABASE_URL;
+      if (!DATABASE_URL) {
+        throw new Error('DATABASE_URL environment variable is required');
+      }
+      initDatabase(DATABASE_URL);
+
+      const format = ['.ndjson', '.jsonl'].includes(extname(file).toLowerCase()) ? 'ndjson' : 'csv';
+      const report = await importCpiIndices(await readFile(file, 'utf8'), format, { dryRun, area, source });
+
+      console.log(`✅ ${dryRun ? 'Validated' : 'Loaded'} ${report.indices} indices (${report.inserted} new, ${report.updated} updated) for ${report.areas.join(', ')}`);
+      for (const error of report.errors) {
+        console.warn(`⚠️  Line ${error.line}: ${error.errors.join('; ')}`);
+      }
+      process.exit(0);
+    } catch (error) {
+      console.error('❌ CPI load failed:', error);
+      process.exit(1);
+    }
+  })();
+}
@@ -0,0 +1,86 @@
+/**
+ * Market Data Source Adapters
+ *
+ * Each market data source is synced through an adapter: a fetcher that pulls
+ * raw listings page by page and a normalizer that maps one raw listing onto
+ * a market data observation. Adapters are registered by source slug.
+ */
+
+import type { marketDataSources } from '../db.js';
+import { fixtureAdapter, isFixtureAdapterEnabled } from './fixture-adapter.js';
+
+export type MarketDataSource = typeof marketDataSources.$inferSelect;
+
+/**
+ * A marketplace listing normalized to market_data_points fields
+ */
+export interface MarketDataObservation {
+  externalId: string;
+  // Category by ID or slug
+  categoryId?: string;
+  category?: string;
+  productName: string;
+  brand?: string;
+  model?: string;
+  year?: number;
+  condition?: string;
+  listingPrice: number;
+  soldPrice?: number;
+  currency?: string;
+  listingDate: Date;
+  soldDate?: Date;
+  location?: string;
+  url?: string;
+  specifications?: Record<string, unknown>;
+}
+
+export interface FetchContext {
+  source: MarketDataSource;
+  // Opaque cursor returned by the previous page, null on the first request
+  cursor: string | null;
+  // Only listings changed after this date are needed (null on first sync)
+  since: Date | null;
+}
+
+export interface FetchedPage {
+  items: unknown[];
+  nextCursor: string | null;
+}
+
+export interface MarketDataAdapter {
+  // One call counts as one request against the source's rate limits
+  fetchPage(context: FetchContext): Promise<FetchedPage>;
+  // Returns null for listings that should be ignored; throws on malformed ones
+  normalize(item: unknown, source: MarketDataSource): MarketDataObservation | null;
+}
+
+const adapters = new Map<string, MarketDataAdapter>();
+
+/**
+ * Register the adapter used for a source slug
+ */
+export const registerMarketDataAdapter = (slug: string, adapter: MarketDataAdapter): void => {
+  adapters.set(slug, adapter);
+};
+
+/**
+ * Adapter for a source: registered by slug, or the fixture adapter for
+ * sources whose apiEndpoint is a file:// URL (outside production)
+ */
+export const resolveMarketDataAdapter = (
+  source: Pick<MarketDataSource, 'slug' | 'apiEndpoint'>
+): MarketDataAdapter | null => {
+  const adapter = adapters.get(source.slug);
+  if (adapter) return adapter;
+
+  if (source.apiEndpoint?.startsWith('file://') && isFixtureAdapterEnabled()) {
+    return fixtureAdapter;
+  }
+
+  return null;
+};
+
+/**
+ * Slugs with a registered adapter
+ */
+export const getRegisteredAdapterSlugs = (): string[] => [...adapters.keys()];
@@ -0,0 +1,107 @@
+/**
+ * Fixture Market Data Adapter
+ *
+ * Reads listings from a local NDJSON or JSON array file referenced by the
+ * source's apiEndpoint (file:///path/to/listings.ndjson), so syncs can be
+ * exercised offline. Records use the same columns as the bulk import.
+ *
+ * Only files inside the fixtures directory (MARKET_DATA_FIXTURES_DIR, by
+ * default ./fixtures) can be read, and the adapter is off in production.
+ */
+
+import { readFile, realpath } from 'fs/promises';
+import { isAbsolute, relative, resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { parseNdjson } from './parsers.js';
+import { parseMarketDataRecord, formatRecordIssues } from './import.js';
+import type { MarketDataAdapter } from './adapters.js';
+
+// Listings returned per fetchPage call
+export const FIXTURE_PAGE_SIZE = 100;
+
+/**
+ * Whether file:// sources may be synced (never in production)
+ */
+export const isFixtureAdapterEnabled = (): boolean => process.env.NODE_ENV !== 'production';
+
+const fixturesDirectory = (): string =>
+  resolve(process.env.MARKET_DATA_FIXTURES_DIR || fileURLToPath(new URL('./fixtures/', import.meta.url)));
+
+/**
+ * Local path of a fixture URL, refusing anything outside the fixtures
+ * directory (symlinks included)
+ */
+const resolveFixturePath = async (apiEndpoint: string): Promise<string> => {
+  const directory = await realpath(fixturesDirectory());
+  const file = await realpath(fileURLToPath(apiEndpoint));
+  const relativePath = relative(directory, file);
+
+  if (relativePath.startsWith('..') || isAbsolute(relativePath)) {
+    throw new Error('Fixture files must be inside the fixtures directory');
+  }
+
+  return file;
+};
+
+const loadFixture = async (apiEndpoint: string): Promise<unknown[]> => {
+  const text = await readFile(await resolveFixturePath(apiEndpoint), 'utf8');
+
+  if (text.trimStart().startsWith('[')) {
+    const parsed = JSON.parse(text);
+    if (!Array.isArray(parsed)) {
+      throw new Error('Fixture must be a JSON array or NDJSON');
+    }
+    return parsed;
+  }
+
+  const { records, errors } = parseNdjson(text);
+  if (errors.length > 0) {
+    throw new Error(`Invalid fixture line ${errors[0].line}: ${errors[0].message}`);
+  }
+  return records.map((record) => record.values);
+};
+
+export const fixtureAdapter: MarketDataAdapter = {
+  async fetchPage({ source, cursor, since }) {
+    if (!source.apiEndpoint) {
+      throw new Error(`Source ${source.slug} has no fixture file`);
+    }
+
+    const items = await loadFixture(source.apiEndpoint);
+    const offset = cursor ? parseInt(cursor, 10) : 0;
+
+    // Mimic incremental APIs: skip listings not updated since the last sync
+    const fresh = since
+      ? items.filter((item) => {
+          const updatedAt = (item as Record<string, unknown>)?.updatedAt;
+          return typeof updatedAt !== 'string' || new Date(updatedAt) > since;
+        })
+      : items;
+
+    const page = fresh.slice(offset, offset + FIXTURE_PAGE_SIZE);
+    const nextOffset = offset + page.length;
+
+    return {
+      items: page,
+      nextCursor: nextOffset < fresh.length ? String(nextOffset) : null,
+    };
+  },
+
+  normalize(item) {
+    if (!item || typeof item !== 'object' || Array.isArray(item)) {
+      throw new Error('Listing must be an object');
+    }
+
+    const result = parseMarketDataRecord(item as Record<string, unknown>);
+    if (!result.success) {
+      throw new Error(formatRecordIssues(result.error).join('; '));
+    }
+
+    const { sourceId: _sourceId, source: _source, externalId, ...observation } = result.data;
+    if (!externalId) {
+      throw new Error('externalId: Required');
+    }
+
+    return { ...observation, externalId };
+  },
+};
@@ -0,0 +1,416 @@
+/**
+ * Market Data Import
+ *
+ * Maps marketplace price dumps (CSV or NDJSON) onto market_data_points,
+ * deduplicating on (sourceId, externalId) and reporting errors per row.
+ * Rows without an external ID get one derived from their content so
+ * re-importing the same file doesn't duplicate them.
+ */
+
+import { createHash } from 'crypto';
+import { z } from 'zod';
+import { and, inArray, sql } from 'drizzle-orm';
+import { getDatabase, marketDataPoints, marketDataSources, assetCategories } from '../db.js';
+import { parseCsv, parseNdjson, type ParsedRecord } from './parsers.js';
+import { runOutlierDetection, type OutlierDetectionSummary } from './outliers.js';
+import { getNormalizationDictionary, normalizeRecord } from '../normalization/dictionary.js';
+
+export type ImportFormat = 'csv' | 'ndjson';
+
+export type MarketDataPointInsert = typeof marketDataPoints.$inferInsert;
+
+export interface ImportOptions {
+  dryRun: boolean;
+  // Defaults for rows that don't specify their own source/category
+  sourceId?: string;
+  categoryId?: string;
+}
+
+export interface RowError {
+  line: number;
+  errors: string[];
+}
+
+export interface ImportReport {
+  format: ImportFormat;
+  dryRun: boolean;
+  totalRows: number;
+  validRows: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  // Outlier pass over the imported categories (not run on dry runs)
+  outliers: OutlierDetectionSummary | null;
+  errors: RowError[];
+}
+
+// Upper bound on rows accepted in a single import
+export const MAX_IMPORT_ROWS = 10000;
+// Rows per INSERT statement
+const INSERT_CHUNK_SIZE = 500;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Largest amount a numeric(12,2) price column holds
+const MAX_PRICE = 9999999999.99;
+
+// Accepted column names (compared lowercase without separators) for each field
+const COLUMN_ALIASES: Record<string, string> = {
+  sourceid: 'sourceId',
+  source: 'source',
+  sourceslug: 'source',
+  categoryid: 'categoryId',
+  category: 'category',
+  categoryslug: 'category',
+  productname: 'productName',
+  product: 'productName',
+  title: 'productName',
+  name: 'productName',
+  brand: 'brand',
+  make: 'brand',
+  model: 'model',
+  year: 'year',
+  condition: 'condition',
+  listingprice: 'listingPrice',
+  price: 'listingPrice',
+  askingprice: 'listingPrice',
+  soldprice: 'soldPrice',
+  saleprice: 'soldPrice',
+  currency: 'currency',
+  listingdate: 'listingDate',
+  listedat: 'listingDate',
+  listeddate: 'listingDate',
+  solddate: 'soldDate',
+  soldat: 'soldDate',
+  location: 'location',
+  externalid: 'externalId',
+  id: 'externalId',
+  listingid: 'externalId',
+  url: 'url',
+  link: 'url',
+  specifications: 'specifications',
+  specs: 'specifications',
+};
+
+// CSV cells are strings: empty cells mean "not provided"
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  z.preprocess((value) => (value === '' || value === null ? undefined : value), schema.optional());
+
+const marketDataRowSchema = z.object({
+  sourceId: optional(z.string().uuid('Invalid source ID')),
+  source: optional(z.string().max(100)),
+  categoryId: optional(z.string().uuid('Invalid category ID')),
+  category: optional(z.string().max(100)),
+  productName: z.string().trim().min(1, 'Product name is required').max(255, 'Product name too long'),
+  brand: optional(z.string().trim().max(100, 'Brand too long')),
+  model: optional(z.string().trim().max(100, 'Model too long')),
+  year: optional(z.coerce.number().int().min(1900).max(2100)),
+  condition: optional(z.string().trim().toLowerCase().max(50, 'Condition too long')),
+  listingPrice: z.coerce.number({ invalid_type_error: 'Listing price must be a number' }).positive('Listing price must be positive').max(MAX_PRICE, 'Listing price too large'),
+  soldPrice: optional(z.coerce.number().positive('Sold price must be positive').max(MAX_PRICE, 'Sold price too large')),
+  currency: optional(z.string().trim().toUpperCase().length(3, 'Currency must be a 3-letter code')),
+  listingDate: z.coerce.date({ invalid_type_error: 'Invalid listing date' }),
+  soldDate: optional(z.coerce.date({ invalid_type_error: 'Invalid sold date' })),
+  location: optional(z.string().trim().max(100, 'Location too long')),
+  externalId: optional(z.coerce.string().trim().max(255, 'External ID too long')),
+  url: optional(z.string().url('Invalid URL')),
+  specifications: optional(z.preprocess(
+    (value) => {
+      if (typeof value !== 'string') return value;
+      try {
+        return JSON.parse(value);
+      } catch {
+        return value;
+      }
+    },
+    z.record(z.string(), z.unknown(), { invalid_type_error: 'Specifications must be a JSON object' })
+  )),
+}).refine((row) => !row.soldDate || row.soldDate >= row.listingDate, {
+  message: 'Sold date is before listing date',
+});
+
+export type MarketDataRow = z.infer<typeof marketDataRowSchema>;
+
+/**
+ * Rename known column aliases to their canonical field names
+ */
+const mapColumns = (values: Record<string, unknown>): Record<string, unknown> => {
+  const mapped: Record<string, unknown> = {};
+  for (const [column, value] of Object.entries(values)) {
+    const field = COLUMN_ALIASES[column.toLowerCase().replace(/[^a-z0-9]/g, '')];
+    if (field && mapped[field] === undefined) {
+      mapped[field] = typeof value === 'string' ? value.trim() : value;
+    }
+  }
+  return mapped;
+};
+
+/**
+ * Validate a single record (import columns or their aliases)
+ */
+export const parseMarketDataRecord = (values: Record<string, unknown>) =>
+  marketDataRowSchema.safeParse(mapColumns(values));
+
+/**
+ * Human-readable messages for a failed record validation
+ */
+export const formatRecordIssues = (error: z.ZodError): string[] =>
+  error.issues.map((issue) =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message
+  );
+
+/**
+ * External ID for a row that has none, derived from the listing's identity
+ * (not its sale fields, so a later import marking it sold updates the point)
+ */
+export const contentExternalId = (row: MarketDataRow): string => {
+  const identity = [
+    row.productName,
+    row.brand ?? null,
+    row.model ?? null,
+    row.year ?? null,
+    row.condition ?? null,
+    row.listingPrice.toFixed(2),
+    row.currency ?? 'EUR',
+    row.listingDate.toISOString(),
+    row.location ?? null,
+    row.url ?? null,
+  ];
+
+  return `content:${createHash('sha256').update(JSON.stringify(identity)).digest('hex')}`;
+};
+
+/**
+ * Days between listing and sale, when the item sold
+ */
+export const computeDaysToSell = (listingDate: Date, soldDate?: Date | null): number | null => {
+  if (!soldDate) return null;
+  return Math.max(0, Math.round((soldDate.getTime() - listingDate.getTime()) / DAY_MS));
+};
+
+/**
+ * Insert or update market data points; rows with the same (sourceId, externalId)
+ * as an existing point replace its prices and dates. Brands and models are
+ * normalized against the brand dictionary first.
+ */
+export const upsertMarketDataPoints = async (
+  rows: MarketDataPointInsert[]
+): Promise<{ inserted: number; updated: number }> => {
+  const db = getDatabase();
+  const dictionary = await getNormalizationDictionary();
+  const normalizedRows = rows.map((row) => normalizeRecord(row, dictionary));
+  let inserted = 0;
+  let updated = 0;
+
+  for (let start = 0; start < normalizedRows.length; start += INSERT_CHUNK_SIZE) {
+    const chunk = normalizedRows.slice(start, start + INSERT_CHUNK_SIZE);
+
+    const result = await db.insert(marketDataPoints)
+      .values(chunk)
+      .onConflictDoUpdate({
+        target: [marketDataPoints.sourceId, marketDataPoints.externalId],
+        set: {
+          categoryId: sql`excluded.category_id`,
+          productName: sql`excluded.product_name`,
+          brand: sql`excluded.brand`,
+          model: sql`excluded.model`,
+          year: sql`excluded.year`,
+          condition: sql`excluded.condition`,
+          listingPrice: sql`excluded.listing_price`,
+          soldPrice: sql`excluded.sold_price`,
+          currency: sql`excluded.currency`,
+          listingDate: sql`excluded.listing_date`,
+          soldDate: sql`excluded.sold_date`,
+          daysToSell: sql`excluded.days_to_sell`,
+          location: sql`excluded.location`,
+          url: sql`excluded.url`,
+          specifications: sql`excluded.specifications`,
+        },
+      })
+      // xmax is 0 for freshly inserted tuples
+      .returning({ inserted: sql<boolean>`(xmax = 0)` });
+
+    for (const row of result) {
+      if (row.inserted) inserted++;
+      else updated++;
+    }
+  }
+
+  return { inserted, updated };
+};
+
+/**
+ * Existing (sourceId, externalId) keys among the given rows
+ */
+const findExistingKeys = async (rows: MarketDataPointInsert[]): Promise<Set<string>> => {
+  const keyed = rows.filter((row) => row.externalId);
+  if (keyed.length === 0) return new Set();
+
+  const db = getDatabase();
+  const existing = await db.select({
+    sourceId: marketDataPoints.sourceId,
+    externalId: marketDataPoints.externalId,
+  })
+  .from(marketDataPoints)
+  .where(and(
+    inArray(marketDataPoints.sourceId, [...new Set(keyed.map((row) => row.sourceId))]),
+    inArray(marketDataPoints.externalId, [...new Set(keyed.map((row) => row.externalId!))])
+  ));
+
+  return new Set(existing.map((row) => `${row.sourceId}:${row.externalId}`));
+};
+
+/**
+ * Look up sources and categories referenced by id or slug
+ */
+const resolveReferences = async (rows: MarketDataRow[], options: ImportOptions) => {
+  const db = getDatabase();
+
+  const sourceIds = new Set<string>(options.sourceId ? [options.sourceId] : []);
+  const sourceSlugs = new Set<string>();
+  const categoryIds = new Set<string>(options.categoryId ? [options.categoryId] : []);
+  const categorySlugs = new Set<string>();
+
+  for (const row of rows) {
+    if (row.sourceId) sourceIds.add(row.sourceId);
+    else if (row.source) sourceSlugs.add(row.source);
+    if (row.categoryId) categoryIds.add(row.categoryId);
+    else if (row.category) categorySlugs.add(row.category);
+  }
+
+  const [sourcesById, sourcesBySlug, categoriesById, categoriesBySlug] = await Promise.all([
+    sourceIds.size > 0
+      ? db.select({ id: marketDataSources.id, slug: marketDataSources.slug }).from(marketDataSources).where(inArray(marketDataSources.id, [...sourceIds]))
+      : [],
+    sourceSlugs.size > 0
+      ? db.select({ id: marketDataSources.id, slug: marketDataSources.slug }).from(marketDataSources).where(inArray(marketDataSources.slug, [...sourceSlugs]))
+      : [],
+    categoryIds.size > 0
+      ? db.select({ id: assetCategories.id, slug: assetCategories.slug }).from(assetCategories).where(inArray(assetCategories.id, [...categoryIds]))
+      : [],
+    categorySlugs.size > 0
+      ? db.select({ id: assetCategories.id, slug: assetCategories.slug }).from(assetCategories).where(inArray(assetCategories.slug, [...categorySlugs]))
+      : [],
+  ]);
+
+  return {
+    sources: new Map<string, string>([
+      ...sourcesById.map((source) => [source.id, source.id] as [string, string]),
+      ...sourcesBySlug.map((source) => [source.slug, source.id] as [string, string]),
+    ]),
+    categories: new Map<string, string>([
+      ...categoriesById.map((category) => [category.id, category.id] as [string, string]),
+      ...categoriesBySlug.map((category) => [category.slug, category.id] as [string, string]),
+    ]),
+  };
+};
+
+/**
+ * Parse, validate and (unless dry-running) store a market data dump
+ */
+export const importMarketData = async (
+  text: string,
+  format: ImportFormat,
+  options: ImportOptions
+): Promise<ImportReport> => {
+  const parsed = format === 'csv' ? parseCsv(text) : parseNdjson(text);
+  const errors: RowError[] = parsed.errors.map((error) => ({ line: error.line, errors: [error.message] }));
+
+  if (parsed.records.length > MAX_IMPORT_ROWS) {
+    throw new RangeError(`Too many rows: at most ${MAX_IMPORT_ROWS} can be imported at once`);
+  }
+
+  // Validate every record
+  const validRecords: { record: ParsedRecord; row: MarketDataRow }[] = [];
+  for (const record of parsed.records) {
+    const result = parseMarketDataRecord(record.values);
+    if (!result.success) {
+      errors.push({
+        line: record.line,
+        errors: formatRecordIssues(result.error),
+      });
+      continue;
+    }
+    validRecords.push({ record, row: result.data });
+  }
+
+  const { sources, categories } = await resolveReferences(validRecords.map(({ row }) => row), options);
+
+  // Resolve references and drop duplicates within the file
+  const inserts: MarketDataPointInsert[] = [];
+  const seenKeys = new Map<string, number>();
+  let skipped = 0;
+
+  for (const { record, row } of validRecords) {
+    const rowErrors: string[] = [];
+    const sourceRef = row.sourceId ?? row.source ?? options.sourceId;
+    const categoryRef = row.categoryId ?? row.category ?? options.categoryId;
+    const sourceId = sourceRef ? sources.get(sourceRef) : undefined;
+    const categoryId = categoryRef ? categories.get(categoryRef) : undefined;
+
+    if (!sourceRef) rowErrors.push('source: A source is required');
+    else if (!sourceId) rowErrors.push(`source: Unknown source '${sourceRef}'`);
+    if (!categoryRef) rowErrors.push('category: A category is required');
+    else if (!categoryId) rowErrors.push(`category: Unknown category '${categoryRef}'`);
+
+    if (rowErrors.length > 0) {
+      errors.push({ line: record.line, errors: rowErrors });
+      continue;
+    }
+
+    const externalId = row.externalId ?? contentExternalId(row);
+    const key = `${sourceId}:${externalId}`;
+    const firstLine = seenKeys.get(key);
+    if (firstLine !== undefined) {
+      skipped++;
+      errors.push({ line: record.line, errors: [`externalId: Duplicate of line ${firstLine}`] });
+      continue;
+    }
+    seenKeys.set(key, record.line);
+
+    inserts.push({
+      sourceId: sourceId!,
+      categoryId: categoryId!,
+      productName: row.productName,
+      brand: row.brand ?? null,
+      model: row.model ?? null,
+      year: row.year ?? null,
+      condition: row.condition ?? null,
+      listingPrice: row.listingPrice.toFixed(2),
+      soldPrice: row.soldPrice !== undefined ? row.soldPrice.toFixed(2) : null,
+      currency: row.currency ?? 'EUR',
+      listingDate: row.listingDate,
+      soldDate: row.soldDate ?? null,
+      daysToSell: computeDaysToSell(row.listingDate, row.soldDate),
+      location: row.location ?? null,
+      externalId,
+      url: row.url ?? null,
+      specifications: row.specifications ?? null,
+    });
+  }
+
+  let inserted = 0;
+  let updated = 0;
+  let outliers: OutlierDetectionSummary | null = null;
+
+  if (options.dryRun) {
+    const existingKeys = await findExistingKeys(inserts);
+    updated = inserts.filter((row) => row.externalId && existingKeys.has(`${row.sourceId}:${row.externalId}`)).length;
+    inserted = inserts.length - updated;
+  } else if (inserts.length > 0) {
+    ({ inserted, updated } = await upsertMarketDataPoints(inserts));
+    outliers = await runOutlierDetection([...new Set(inserts.map((row) => row.categoryId))]);
+  }
+
+  return {
+    format,
+    dryRun: options.dryRun,
+    totalRows: parsed.records.length + parsed.errors.length,
+    validRows: inserts.length,
+    inserted,
+    updated,
+    skipped,
+    outliers,
+    errors: errors.sort((a, b) => a.line - b.line),
+  };
+};
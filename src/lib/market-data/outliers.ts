@@ -0,0 +1,406 @@
+/**
+ * Market Data Outlier Detection
+ *
+ * Flags implausible prices (placeholder €1 listings, €99,999 asks, fake sales)
+ * using robust statistics per category, brand and model cohort. Points are
+ * flagged rather than deleted so an admin can review and override the result.
+ */
+
+import { eq, and, inArray, desc, sql, type SQL } from 'drizzle-orm';
+import { getDatabase, marketDataPoints, marketDataSources, assetCategories, outlierStatusEnum } from '../db.js';
+import { normalizeBrandModelFilters } from '../normalization/dictionary.js';
+import { loadFxConverter, normalizeCurrency, DEFAULT_CURRENCY, type FxConverter } from '../fx/rates.js';
+
+export type OutlierStatus = (typeof outlierStatusEnum.enumValues)[number];
+export type OutlierDecision = 'exclude' | 'include' | 'reset';
+
+export interface OutlierDetection {
+  reason: string;
+  score: number;
+}
+
+export interface OutlierDetectionSummary {
+  categories: number;
+  checked: number;
+  flagged: number;
+  newlyFlagged: number;
+  cleared: number;
+}
+
+export interface OutlierListFilters {
+  status?: OutlierStatus;
+  categoryId?: string;
+  brand?: string;
+  model?: string;
+  page: number;
+  limit: number;
+}
+
+interface CohortPoint {
+  id: string;
+  brand: string | null;
+  model: string | null;
+  // Currency of the prices below; only points in the same currency share a cohort
+  currency: string;
+  listingPrice: number;
+  soldPrice: number | null;
+}
+
+interface RobustStats {
+  median: number;
+  scale: number;
+}
+
+// Points the valuation pipeline may use: never flagged, or kept after review
+export const usableMarketData: SQL = inArray(marketDataPoints.outlierStatus, ['clear', 'dismissed']);
+
+// Smallest cohort whose price distribution is trusted; smaller cohorts fall back to brand, then category
+export const MIN_COHORT_SIZE = 8;
+// Modified z-score above which a price is flagged (Iglewicz and Hoaglin)
+export const OUTLIER_Z_THRESHOLD = 3.5;
+// A sold price this far from its own asking price points at a fake or mistyped sale
+const MIN_SOLD_TO_LISTING_RATIO = 0.2;
+const MAX_SOLD_TO_LISTING_RATIO = 3;
+
+const DECISION_STATUSES: Record<OutlierDecision, OutlierStatus> = {
+  exclude: 'confirmed',
+  include: 'dismissed',
+  reset: 'clear',
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Median and MAD-based scale of a sample. Prices are compared on a log scale
+ * so a €1 placeholder is as suspicious as a price 500 times the median.
+ */
+export const robustStats = (prices: number[]): RobustStats | null => {
+  const logs = prices.filter((price) => price > 0).map(Math.log);
+  if (logs.length === 0) return null;
+
+  const center = median(logs);
+  const deviations = logs.map((value) => Math.abs(value - center));
+
+  // 1.4826 * MAD estimates the standard deviation; fall back to the mean
+  // absolute deviation when more than half the prices are identical
+  let scale = 1.4826 * median(deviations);
+  if (scale === 0) {
+    scale = 1.2533 * (deviations.reduce((sum, value) => sum + value, 0) / deviations.length);
+  }
+
+  return scale > 0 ? { median: center, scale } : null;
+};
+
+const cohortKey = (...parts: (string | null)[]) =>
+  parts.map((part) => part?.trim().toLowerCase() ?? '').join('|');
+
+const describeCohort = (level: 'model' | 'brand' | 'category', point: CohortPoint) => {
+  if (level === 'model') return `${point.brand} ${point.model}`;
+  if (level === 'brand') return `${point.brand}`;
+  return 'category';
+};
+
+/**
+ * Detect outliers among the points of one category
+ */
+export const detectOutliers = (points: CohortPoint[]): Map<string, OutlierDetection> => {
+  const detections = new Map<string, OutlierDetection>();
+
+  const flag = (id: string, reason: string, score: number) => {
+    const existing = detections.get(id);
+    if (!existing || Math.abs(score) > Math.abs(existing.score)) {
+      detections.set(id, { reason, score });
+    }
+  };
+
+  for (const kind of ['listing', 'sold'] as const) {
+    const priceOf = (point: CohortPoint) => kind === 'listing' ? point.listingPrice : point.soldPrice;
+    const priced = points.filter((point) => priceOf(point) !== null);
+
+    // Group prices at each cohort level
+    const cohorts = {
+      model: new Map<string, number[]>(),
+      brand: new Map<string, number[]>(),
+      category: new Map<string, number[]>(),
+    };
+    const keysOf = (point: CohortPoint) => ({
+      model: point.brand && point.model ? cohortKey(point.currency, point.brand, point.model) : null,
+      brand: point.brand ? cohortKey(point.currency, point.brand) : null,
+      category: cohortKey(point.currency),
+    });
+
+    for (const point of priced) {
+      const keys = keysOf(point);
+      for (const level of ['model', 'brand', 'category'] as const) {
+        const key = keys[level];
+        if (key === null) continue;
+        const prices = cohorts[level].get(key);
+        if (prices) {
+          prices.push(priceOf(point)!);
+        } else {
+          cohorts[level].set(key, [priceOf(point)!]);
+        }
+      }
+    }
+
+    const statsCache = new Map<string, RobustStats | null>();
+
+    for (const point of priced) {
+      const keys = keysOf(point);
+      const level = (['model', 'brand', 'category'] as const).find((candidate) => {
+        const key = keys[candidate];
+        return key !== null && (cohorts[candidate].get(key)?.length ?? 0) >= MIN_COHORT_SIZE;
+      });
+      if (!level) continue;
+
+      const cacheKey = `${level}:${keys[level]}`;
+      if (!statsCache.has(cacheKey)) {
+        statsCache.set(cacheKey, robustStats(cohorts[level].get(keys[level]!)!));
+      }
+      const stats = statsCache.get(cacheKey);
+      const price = priceOf(point)!;
+      if (!stats || price <= 0) continue;
+
+      const score = (Math.log(price) - stats.median) / stats.scale;
+      if (Math.abs(score) > OUTLIER_Z_THRESHOLD) {
+        const cohortMedian = Math.exp(stats.median);
+        flag(
+          point.id,
+          `${kind === 'listing' ? 'Listing' : 'Sold'} price ${price.toFixed(2)} ${point.currency} is far ${score < 0 ? 'below' : 'above'} ` +
+          `the ${describeCohort(level, point)} median of ${cohortMedian.toFixed(2)} ${point.currency}`,
+          score
+        );
+      }
+    }
+  }
+
+  // Sales that don't match their own listing
+  for (const point of points) {
+    if (point.soldPrice === null || point.listingPrice <= 0) continue;
+    const ratio = point.soldPrice / point.listingPrice;
+    if (ratio < MIN_SOLD_TO_LISTING_RATIO || ratio > MAX_SOLD_TO_LISTING_RATIO) {
+      // Express the mismatch on the same log/z scale so the strongest signal wins
+      const score = Math.log(ratio) / Math.log(MAX_SOLD_TO_LISTING_RATIO) * OUTLIER_Z_THRESHOLD;
+      flag(
+        point.id,
+        `Sold price ${point.soldPrice.toFixed(2)} is inconsistent with listing price ${point.listingPrice.toFixed(2)}`,
+        score
+      );
+    }
+  }
+
+  return detections;
+};
+
+/**
+ * Cohort point with its prices in DEFAULT_CURRENCY, converted at the date each
+ * price was observed. Points without a rate keep their own currency and are
+ * only compared with points in that currency.
+ */
+const toCohortPoint = (
+  row: { id: string; brand: string | null; model: string | null; currency: string | null; listingPrice: string; soldPrice: string | null; listingDate: Date; soldDate: Date | null },
+  fx: FxConverter
+): CohortPoint => {
+  const currency = normalizeCurrency(row.currency);
+  const listingPrice = parseFloat(row.listingPrice);
+  const soldPrice = row.soldPrice !== null ? parseFloat(row.soldPrice) : null;
+
+  const convertedListing = fx.convert(listingPrice, currency, DEFAULT_CURRENCY, row.listingDate);
+  const convertedSold = soldPrice !== null
+    ? fx.convert(soldPrice, currency, DEFAULT_CURRENCY, row.soldDate ?? row.listingDate)
+    : null;
+
+  if (convertedListing === null || (soldPrice !== null && convertedSold === null)) {
+    return { id: row.id, brand: row.brand, model: row.model, currency, listingPrice, soldPrice };
+  }
+
+  return {
+    id: row.id,
+    brand: row.brand,
+    model: row.model,
+    currency: DEFAULT_CURRENCY,
+    listingPrice: convertedListing,
+    soldPrice: convertedSold,
+  };
+};
+
+/**
+ * Run outlier detection over the given categories (all categories with
+ * market data by default). Reviewed points ('confirmed', 'dismissed') keep
+ * their status; other points are flagged or cleared. Confirmed outliers are
+ * left out of the cohort statistics.
+ */
+export const runOutlierDetection = async (
+  categoryIds?: string[],
+  now: Date = new Date()
+): Promise<OutlierDetectionSummary> => {
+  const db = getDatabase();
+
+  const targetCategoryIds = categoryIds ?? (
+    await db.selectDistinct({ categoryId: marketDataPoints.categoryId }).from(marketDataPoints)
+  ).map((row) => row.categoryId);
+
+  const summary: OutlierDetectionSummary = {
+    categories: targetCategoryIds.length,
+    checked: 0,
+    flagged: 0,
+    newlyFlagged: 0,
+    cleared: 0,
+  };
+
+  for (const categoryId of targetCategoryIds) {
+    const rows = await db.select({
+      id: marketDataPoints.id,
+      brand: marketDataPoints.brand,
+      model: marketDataPoints.model,
+      currency: marketDataPoints.currency,
+      listingPrice: marketDataPoints.listingPrice,
+      soldPrice: marketDataPoints.soldPrice,
+      listingDate: marketDataPoints.listingDate,
+      soldDate: marketDataPoints.soldDate,
+      outlierStatus: marketDataPoints.outlierStatus,
+    })
+    .from(marketDataPoints)
+    .where(eq(marketDataPoints.categoryId, categoryId));
+
+    // Confirmed outliers would skew the cohort median and MAD; dismissed
+    // points were judged genuine and still shape the distribution
+    const fx = await loadFxConverter([DEFAULT_CURRENCY, ...rows.map((row) => row.currency)]);
+    const detections = detectOutliers(rows
+      .filter((row) => row.outlierStatus !== 'confirmed')
+      .map((row) => toCohortPoint(row, fx)));
+
+    const automatic = rows.filter((row) => row.outlierStatus === 'clear' || row.outlierStatus === 'flagged');
+    summary.checked += automatic.length;
+
+    await db.transaction(async (tx) => {
+      await tx.update(marketDataPoints)
+        .set({ outlierStatus: 'clear', outlierReason: null, outlierScore: null, outlierCheckedAt: now })
+        .where(and(
+          eq(marketDataPoints.categoryId, categoryId),
+          inArray(marketDataPoints.outlierStatus, ['clear', 'flagged'])
+        ));
+
+      for (const row of automatic) {
+        const detection = detections.get(row.id);
+
+        if (!detection) {
+          if (row.outlierStatus === 'flagged') summary.cleared++;
+          continue;
+        }
+
+        summary.flagged++;
+        if (row.outlierStatus === 'clear') summary.newlyFlagged++;
+
+        await tx.update(marketDataPoints)
+          .set({
+            outlierStatus: 'flagged',
+            outlierReason: detection.reason,
+            // Near-constant cohorts can produce huge scores; keep them within the column
+            outlierScore: Math.max(-9999, Math.min(9999, detection.score)).toFixed(2),
+          })
+          .where(eq(marketDataPoints.id, row.id));
+      }
+    });
+  }
+
+  return summary;
+};
+
+/**
+ * Market data points for admin review, most extreme first
+ */
+export const listOutliers = async (filters: OutlierListFilters) => {
+  const db = getDatabase();
+
+  const whereConditions: SQL[] = [
+    filters.status
+      ? eq(marketDataPoints.outlierStatus, filters.status)
+      : inArray(marketDataPoints.outlierStatus, ['flagged', 'confirmed', 'dismissed']),
+  ];
+  if (filters.categoryId) whereConditions.push(eq(marketDataPoints.categoryId, filters.categoryId));
+  const { brand, model } = await normalizeBrandModelFilters(filters);
+  if (brand) whereConditions.push(eq(marketDataPoints.brand, brand));
+  if (model) whereConditions.push(eq(marketDataPoints.model, model));
+
+  const [points, countResult] = await Promise.all([
+    db.select({
+      id: marketDataPoints.id,
+      productName: marketDataPoints.productName,
+      brand: marketDataPoints.brand,
+      model: marketDataPoints.model,
+      condition: marketDataPoints.condition,
+      listingPrice: marketDataPoints.listingPrice,
+      soldPrice: marketDataPoints.soldPrice,
+      currency: marketDataPoints.currency,
+      listingDate: marketDataPoints.listingDate,
+      soldDate: marketDataPoints.soldDate,
+      url: marketDataPoints.url,
+      outlierStatus: marketDataPoints.outlierStatus,
+      outlierReason: marketDataPoints.outlierReason,
+      outlierScore: marketDataPoints.outlierScore,
+      outlierCheckedAt: marketDataPoints.outlierCheckedAt,
+      outlierReviewedBy: marketDataPoints.outlierReviewedBy,
+      outlierReviewedAt: marketDataPoints.outlierReviewedAt,
+      source: {
+        id: marketDataSources.id,
+        slug: marketDataSources.slug,
+      },
+      category: {
+        id: assetCategories.id,
+        name: assetCategories.name,
+      },
+    })
+    .from(marketDataPoints)
+    .innerJoin(marketDataSources, eq(marketDataPoints.sourceId, marketDataSources.id))
+    .innerJoin(assetCategories, eq(marketDataPoints.categoryId, assetCategories.id))
+    .where(and(...whereConditions))
+    .orderBy(sql`abs(${marketDataPoints.outlierScore}) DESC NULLS LAST`, desc(marketDataPoints.listingDate))
+    .limit(filters.limit)
+    .offset((filters.page - 1) * filters.limit),
+
+    db.select({ count: sql<number>`count(*)::int` })
+      .from(marketDataPoints)
+      .where(and(...whereConditions)),
+  ]);
+
+  return { points, total: countResult[0]?.count ?? 0 };
+};
+
+/**
+ * Apply an admin decision to a point: exclude it from valuations, keep it
+ * despite the flag, or reset it so the next detection pass decides again.
+ * Returns null if the point does not exist.
+ */
+export const reviewOutlier = async (
+  pointId: string,
+  decision: OutlierDecision,
+  reviewerId: string,
+  now: Date = new Date()
+) => {
+  const db = getDatabase();
+  const status = DECISION_STATUSES[decision];
+
+  const updated = await db.update(marketDataPoints)
+    .set({
+      outlierStatus: status,
+      outlierReviewedBy: reviewerId,
+      outlierReviewedAt: now,
+      ...(decision === 'reset' ? { outlierReason: null, outlierScore: null } : {}),
+    })
+    .where(eq(marketDataPoints.id, pointId))
+    .returning({
+      id: marketDataPoints.id,
+      outlierStatus: marketDataPoints.outlierStatus,
+      outlierReason: marketDataPoints.outlierReason,
+      outlierScore: marketDataPoints.outlierScore,
+      outlierReviewedBy: marketDataPoints.outlierReviewedBy,
+      outlierReviewedAt: marketDataPoints.outlierReviewedAt,
+    });
+
+  return updated[0] ?? null;
+};
@@ -0,0 +1,137 @@
+/**
+ * Market Data File Parsers
+ *
+ * Turns CSV and NDJSON marketplace dumps into plain records, keeping the
+ * source line number of each record for error reporting.
+ */
+
+export interface ParsedRecord {
+  line: number;
+  values: Record<string, unknown>;
+}
+
+export interface ParseError {
+  line: number;
+  message: string;
+}
+
+export interface ParseResult {
+  records: ParsedRecord[];
+  errors: ParseError[];
+}
+
+/**
+ * Split CSV text into rows of fields (RFC 4180: quoted fields, "" escapes,
+ * newlines inside quotes). Each row carries the line it starts on.
+ */
+const tokenizeCsv = (text: string): { line: number; fields: string[] }[] => {
+  const rows: { line: number; fields: string[] }[] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      rows.push({ line: rowLine, fields });
+      fields = [];
+      field = '';
+      line++;
+      rowLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || fields.length > 0) {
+    fields.push(field);
+    rows.push({ line: rowLine, fields });
+  }
+
+  // Drop blank lines
+  return rows.filter((row) => row.fields.some((value) => value.trim() !== ''));
+};
+
+/**
+ * Parse CSV with a header row into records keyed by column name
+ */
+export const parseCsv = (text: string): ParseResult => {
+  const rows = tokenizeCsv(text.replace(/^\uFEFF/, ''));
+  const errors: ParseError[] = [];
+
+  if (rows.length === 0) {
+    return { records: [], errors: [{ line: 1, message: 'Empty file' }] };
+  }
+
+  const header = rows[0].fields.map((column) => column.trim());
+  const records: ParsedRecord[] = [];
+
+  for (const row of rows.slice(1)) {
+    if (row.fields.length !== header.length) {
+      errors.push({
+        line: row.line,
+        message: `Expected ${header.length} columns, found ${row.fields.length}`,
+      });
+      continue;
+    }
+
+    const values: Record<string, unknown> = {};
+    header.forEach((column, index) => {
+      values[column] = row.fields[index];
+    });
+    records.push({ line: row.line, values });
+  }
+
+  return { records, errors };
+};
+
+/**
+ * Parse newline-delimited JSON, one object per line
+ */
+export const parseNdjson = (text: string): ParseResult => {
+  const records: ParsedRecord[] = [];
+  const errors: ParseError[] = [];
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = index + 1;
+    if (rawLine.trim() === '') return;
+
+    try {
+      const parsed = JSON.parse(rawLine);
+      if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+        errors.push({ line, message: 'Each line must be a JSON object' });
+        return;
+      }
+      records.push({ line, values: parsed });
+    } catch {
+      errors.push({ line, message: 'Invalid JSON' });
+    }
+  });
+
+  return { records, errors };
+};
@@ -0,0 +1,364 @@
+/**
+ * Market Data Sync Runner
+ *
+ * Pulls listings from a source through its adapter and upserts them into
+ * market_data_points. Enforces the source's rate limits, records sync health
+ * (lastSyncAt, errorCount, lastErrorAt) and backs off after repeated failures.
+ * A sync cut short keeps its cursor on the source and the next one resumes
+ * from there.
+ */
+
+import { eq, inArray } from 'drizzle-orm';
+import { getDatabase, marketDataSources, assetCategories } from '../db.js';
+import { resolveMarketDataAdapter, type MarketDataSource, type MarketDataObservation } from './adapters.js';
+import { upsertMarketDataPoints, computeDaysToSell, type MarketDataPointInsert } from './import.js';
+import { runOutlierDetection, type OutlierDetectionSummary } from './outliers.js';
+
+export type SyncStatus = 'completed' | 'rate_limited' | 'backing_off' | 'skipped' | 'failed';
+
+export interface RateLimits {
+  requests_per_hour?: number;
+  daily_limit?: number;
+}
+
+export interface SyncOptions {
+  // Ignore backoff and the inactive flag
+  force?: boolean;
+  // Safety cap on pages fetched in one run
+  maxPages?: number;
+}
+
+export interface SyncResult {
+  sourceId: string;
+  slug: string;
+  status: SyncStatus;
+  message: string | null;
+  requests: number;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  rejected: number;
+  // Outlier pass over the categories that received data
+  outliers: OutlierDetectionSummary | null;
+  errors: { externalId: string | null; message: string }[];
+  retryAt: Date | null;
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+// Consecutive failures tolerated before backing off
+export const BACKOFF_ERROR_THRESHOLD = 3;
+const BACKOFF_BASE_MS = 15 * 60 * 1000; // 15 minutes
+const BACKOFF_MAX_MS = 24 * 60 * 60 * 1000; // 1 day
+
+const DEFAULT_MAX_PAGES = 50;
+// Item errors kept on the sync result
+const MAX_REPORTED_ERRORS = 50;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Request timestamps per source over the last day
+const requestLog = new Map<string, number[]>();
+
+/**
+ * Read rate limits from the source's rate_limits column
+ */
+export const parseRateLimits = (raw: unknown): RateLimits => {
+  if (!raw || typeof raw !== 'object') return {};
+  const value = raw as Record<string, unknown>;
+  const positive = (limit: unknown) =>
+    typeof limit === 'number' && Number.isFinite(limit) && limit > 0 ? limit : undefined;
+
+  return {
+    requests_per_hour: positive(value.requests_per_hour),
+    daily_limit: positive(value.daily_limit),
+  };
+};
+
+/**
+ * Record a request against the source's limits; false when the budget is spent
+ */
+const acquireRequestSlot = (sourceId: string, limits: RateLimits, now: number): boolean => {
+  const log = (requestLog.get(sourceId) ?? []).filter((timestamp) => now - timestamp < DAY_MS);
+  const lastHour = log.filter((timestamp) => now - timestamp < HOUR_MS).length;
+
+  requestLog.set(sourceId, log);
+
+  if (limits.requests_per_hour !== undefined && lastHour >= limits.requests_per_hour) return false;
+  if (limits.daily_limit !== undefined && log.length >= limits.daily_limit) return false;
+
+  log.push(now);
+  return true;
+};
+
+/**
+ * When a failing source may be retried, or null if it isn't backing off
+ */
+export const backoffUntil = (source: Pick<MarketDataSource, 'errorCount' | 'lastErrorAt'>): Date | null => {
+  const errorCount = source.errorCount ?? 0;
+  if (errorCount < BACKOFF_ERROR_THRESHOLD || !source.lastErrorAt) return null;
+
+  const delay = Math.min(BACKOFF_BASE_MS * 2 ** (errorCount - BACKOFF_ERROR_THRESHOLD), BACKOFF_MAX_MS);
+  return new Date(source.lastErrorAt.getTime() + delay);
+};
+
+/**
+ * Map category references used by observations to category IDs
+ */
+const resolveCategories = async (observations: MarketDataObservation[]): Promise<Map<string, string>> => {
+  const ids = [...new Set(observations.flatMap((observation) => observation.categoryId ? [observation.categoryId] : []))];
+  const slugs = [...new Set(observations.flatMap((observation) =>
+    !observation.categoryId && observation.category ? [observation.category] : []
+  ))];
+  const db = getDatabase();
+
+  const [byId, bySlug] = await Promise.all([
+    ids.length > 0
+      ? db.select({ id: assetCategories.id, slug: assetCategories.slug }).from(assetCategories).where(inArray(assetCategories.id, ids))
+      : [],
+    slugs.length > 0
+      ? db.select({ id: assetCategories.id, slug: assetCategories.slug }).from(assetCategories).where(inArray(assetCategories.slug, slugs))
+      : [],
+  ]);
+
+  return new Map<string, string>([
+    ...byId.map((category) => [category.id, category.id] as [string, string]),
+    ...bySlug.map((category) => [category.slug, category.id] as [string, string]),
+  ]);
+};
+
+/**
+ * Sync one source. Returns null if the source does not exist.
+ */
+export const syncMarketDataSource = async (
+  sourceId: string,
+  options: SyncOptions = {}
+): Promise<SyncResult | null> => {
+  const db = getDatabase();
+  const startedAt = new Date();
+
+  const [source] = await db.select()
+    .from(marketDataSources)
+    .where(eq(marketDataSources.id, sourceId))
+    .limit(1);
+
+  if (!source) {
+    return null;
+  }
+
+  const result: SyncResult = {
+    sourceId: source.id,
+    slug: source.slug,
+    status: 'completed',
+    message: null,
+    requests: 0,
+    fetched: 0,
+    inserted: 0,
+    updated: 0,
+    rejected: 0,
+    outliers: null,
+    errors: [],
+    retryAt: null,
+    startedAt,
+    finishedAt: startedAt,
+  };
+
+  const finish = (status: SyncStatus, message: string | null = null): SyncResult => ({
+    ...result,
+    status,
+    message,
+    finishedAt: new Date(),
+  });
+
+  const adapter = resolveMarketDataAdapter(source);
+  if (!adapter) {
+    return finish('skipped', `No adapter registered for source '${source.slug}'`);
+  }
+  if (!source.isActive && !options.force) {
+    return finish('skipped', 'Source is inactive');
+  }
+
+  const retryAt = backoffUntil(source);
+  if (retryAt && retryAt > startedAt && !options.force) {
+    result.retryAt = retryAt;
+    return finish('backing_off', `Backing off after ${source.errorCount} consecutive errors`);
+  }
+
+  const limits = parseRateLimits(source.rateLimits);
+  const maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+  // Resume an unfinished sync: same `since`, and it completes as of its first start
+  let cursor: string | null = source.syncCursor;
+  const syncStartedAt = cursor ? source.syncStartedAt ?? startedAt : startedAt;
+  let status: SyncStatus = 'completed';
+  let message: string | null = null;
+  const touchedCategoryIds = new Set<string>();
+
+  try {
+    do {
+      if (result.requests >= maxPages) {
+        message = `Stopped after ${maxPages} pages`;
+        break;
+      }
+      if (!acquireRequestSlot(source.id, limits, Date.now())) {
+        status = 'rate_limited';
+        message = 'Rate limit reached; remaining pages will be fetched on the next sync';
+        break;
+      }
+
+      const page = await adapter.fetchPage({ source, cursor, since: source.lastSyncAt });
+      result.requests++;
+      result.fetched += page.items.length;
+
+      const observations: MarketDataObservation[] = [];
+      for (const item of page.items) {
+        try {
+          const observation = adapter.normalize(item, source);
+          if (observation) observations.push(observation);
+        } catch (error) {
+          result.rejected++;
+          if (result.errors.length < MAX_REPORTED_ERRORS) {
+            const externalId = (item as Record<string, unknown> | null)?.externalId;
+            result.errors.push({
+              externalId: typeof externalId === 'string' ? externalId : null,
+              message: error instanceof Error ? error.message : String(error),
+            });
+          }
+        }
+      }
+
+      const categories = await resolveCategories(observations);
+      const rows: MarketDataPointInsert[] = [];
+      for (const observation of observations) {
+        const categoryRef = observation.categoryId ?? observation.category;
+        const categoryId = categoryRef ? categories.get(categoryRef) : undefined;
+
+        if (!categoryId) {
+          result.rejected++;
+          if (result.errors.length < MAX_REPORTED_ERRORS) {
+            result.errors.push({
+              externalId: observation.externalId,
+              message: categoryRef ? `Unknown category '${categoryRef}'` : 'A category is required',
+            });
+          }
+          continue;
+        }
+
+        rows.push({
+          sourceId: source.id,
+          categoryId,
+          productName: observation.productName,
+          brand: observation.brand ?? null,
+          model: observation.model ?? null,
+          year: observation.year ?? null,
+          condition: observation.condition ?? null,
+          listingPrice: observation.listingPrice.toFixed(2),
+          soldPrice: observation.soldPrice !== undefined ? observation.soldPrice.toFixed(2) : null,
+          currency: observation.currency ?? 'EUR',
+          listingDate: observation.listingDate,
+          soldDate: observation.soldDate ?? null,
+          daysToSell: computeDaysToSell(observation.listingDate, observation.soldDate),
+          location: observation.location ?? null,
+          externalId: observation.externalId,
+          url: observation.url ?? null,
+          specifications: observation.specifications ?? null,
+        });
+      }
+
+      // Later pages can repeat a listing; keep the last occurrence
+      const unique = [...new Map(rows.map((row) => [row.externalId, row])).values()];
+      if (unique.length > 0) {
+        const { inserted, updated } = await upsertMarketDataPoints(unique);
+        result.inserted += inserted;
+        result.updated += updated;
+        unique.forEach((row) => touchedCategoryIds.add(row.categoryId));
+      }
+
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    if (touchedCategoryIds.size > 0) {
+      result.outliers = await runOutlierDetection([...touchedCategoryIds]);
+    }
+
+    const finishedAt = new Date();
+    await db.update(marketDataSources)
+      .set({
+        // Partial syncs keep the previous watermark and save where to resume
+        ...(cursor
+          ? { syncCursor: cursor, syncStartedAt }
+          : { lastSyncAt: syncStartedAt, syncCursor: null, syncStartedAt: null }),
+        errorCount: 0,
+        updatedAt: finishedAt,
+      })
+      .where(eq(marketDataSources.id, source.id));
+
+    return finish(status, message);
+
+  } catch (error) {
+    const failedAt = new Date();
+    const errorCount = (source.errorCount ?? 0) + 1;
+
+    await db.update(marketDataSources)
+      .set({
+        // Retry from the page that failed
+        ...(cursor ? { syncCursor: cursor, syncStartedAt } : {}),
+        errorCount,
+        lastErrorAt: failedAt,
+        updatedAt: failedAt,
+      })
+      .where(eq(marketDataSources.id, source.id));
+
+    result.retryAt = backoffUntil({ errorCount, lastErrorAt: failedAt });
+    return finish('failed', error instanceof Error ? error.message : String(error));
+  }
+};
+
+/**
+ * Sync every active source, one after another
+ */
+export const syncAllMarketDataSources = async (options: SyncOptions = {}): Promise<SyncResult[]> => {
+  const db = getDatabase();
+  const sources = await db.select({ id: marketDataSources.id })
+    .from(marketDataSources)
+    .where(eq(marketDataSources.isActive, true))
+    .orderBy(marketDataSources.slug);
+
+  const results: SyncResult[] = [];
+  for (const source of sources) {
+    const result = await syncMarketDataSource(source.id, options);
+    if (result) results.push(result);
+  }
+  return results;
+};
+
+/**
+ * Sync health of every source
+ */
+export const getMarketDataSourceHealth = async () => {
+  const db = getDatabase();
+  const sources = await db.select({
+    id: marketDataSources.id,
+    name: marketDataSources.name,
+    slug: marketDataSources.slug,
+    apiEndpoint: marketDataSources.apiEndpoint,
+    rateLimits: marketDataSources.rateLimits,
+    isActive: marketDataSources.isActive,
+    lastSyncAt: marketDataSources.lastSyncAt,
+    // Set while a sync cut short is waiting to be resumed
+    syncStartedAt: marketDataSources.syncStartedAt,
+    lastErrorAt: marketDataSources.lastErrorAt,
+    errorCount: marketDataSources.errorCount,
+  })
+  .from(marketDataSources)
+  .orderBy(marketDataSources.slug);
+
+  return sources.map((source) => {
+    const retryAt = backoffUntil(source);
+    return {
+      ...source,
+      hasAdapter: resolveMarketDataAdapter(source) !== null,
+      backingOffUntil: retryAt && retryAt > new Date() ? retryAt : null,
+    };
+  });
+};
@@ -0,0 +1,189 @@
+/**
+ * Market Velocity Analytics
+ *
+ * Aggregates market_data_points into liquidity indicators for a category,
+ * optionally narrowed to a brand and model: how fast items sell, how many
+ * listings end in a sale and how close sale prices come to asking prices.
+ * Points flagged as outliers are left out.
+ */
+
+import { eq, and, gte, lte, sql, type SQL } from 'drizzle-orm';
+import { getDatabase, marketDataPoints } from '../db.js';
+import { usableMarketData } from './outliers.js';
+import { normalizeBrandModelFilters } from '../normalization/dictionary.js';
+
+export interface VelocityFilters {
+  categoryId: string;
+  brand?: string | null;
+  model?: string | null;
+}
+
+export interface DaysToSellStats {
+  median: number | null;
+  p25: number | null;
+  p75: number | null;
+  p90: number | null;
+  average: number | null;
+}
+
+export interface VelocityTrendPoint {
+  month: string; // YYYY-MM
+  listings: number;
+  sold: number;
+  medianDaysToSell: number | null;
+  sellThroughRate: number | null;
+  medianPriceRatio: number | null;
+}
+
+export interface MarketVelocityStats {
+  filters: VelocityFilters;
+  periodStart: Date;
+  periodEnd: Date;
+  listings: number;
+  sold: number;
+  daysToSell: DaysToSellStats;
+  // Share of listings that ended in a sale (0-1)
+  sellThroughRate: number | null;
+  // Sold price divided by listing price (1 = sold at asking price)
+  priceRatio: {
+    median: number | null;
+    average: number | null;
+  };
+  monthlyTrend: VelocityTrendPoint[];
+}
+
+export const DEFAULT_VELOCITY_MONTHS = 12;
+
+// Liquidity adjustments to valuation confidence (in points)
+const MAX_LIQUIDITY_BONUS = 10;
+const MAX_LIQUIDITY_PENALTY = 15;
+// Below this many listings the market says nothing about liquidity
+const MIN_LIQUIDITY_SAMPLE = 10;
+
+const round = (value: number | string | null | undefined, decimals: number): number | null => {
+  if (value === null || value === undefined) return null;
+  const factor = 10 ** decimals;
+  return Math.round(Number(value) * factor) / factor;
+};
+
+// Aggregates shared by the overall row and the monthly trend
+const soldFilter = sql`${marketDataPoints.soldDate} IS NOT NULL`;
+const priceRatio = sql`CAST(${marketDataPoints.soldPrice} AS DECIMAL) / NULLIF(CAST(${marketDataPoints.listingPrice} AS DECIMAL), 0)`;
+const percentileDays = (p: number) =>
+  sql<string | null>`percentile_cont(${sql.raw(String(p))}) WITHIN GROUP (ORDER BY ${marketDataPoints.daysToSell})`;
+
+/**
+ * Velocity statistics over the last `months` months of listings
+ */
+export const getMarketVelocityStats = async (
+  filters: VelocityFilters,
+  months: number = DEFAULT_VELOCITY_MONTHS,
+  now: Date = new Date()
+): Promise<MarketVelocityStats> => {
+  const db = getDatabase();
+  const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - months + 1, 1));
+
+  const whereConditions: SQL[] = [
+    eq(marketDataPoints.categoryId, filters.categoryId),
+    gte(marketDataPoints.listingDate, periodStart),
+    lte(marketDataPoints.listingDate, now),
+    usableMarketData,
+  ];
+  const { brand, model } = await normalizeBrandModelFilters(filters);
+  if (brand) {
+    whereConditions.push(eq(marketDataPoints.brand, brand));
+  }
+  if (model) {
+    whereConditions.push(eq(marketDataPoints.model, model));
+  }
+
+  const month = sql<string>`to_char(date_trunc('month', ${marketDataPoints.listingDate}), 'YYYY-MM')`;
+
+  const [overallResult, trendResult] = await Promise.all([
+    db.select({
+      listings: sql<number>`count(*)::int`,
+      sold: sql<number>`(count(*) FILTER (WHERE ${soldFilter}))::int`,
+      median: percentileDays(0.5),
+      p25: percentileDays(0.25),
+      p75: percentileDays(0.75),
+      p90: percentileDays(0.9),
+      average: sql<string | null>`avg(${marketDataPoints.daysToSell})`,
+      medianPriceRatio: sql<string | null>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${priceRatio})`,
+      averagePriceRatio: sql<string | null>`avg(${priceRatio})`,
+    })
+    .from(marketDataPoints)
+    .where(and(...whereConditions)),
+
+    db.select({
+      month,
+      listings: sql<number>`count(*)::int`,
+      sold: sql<number>`(count(*) FILTER (WHERE ${soldFilter}))::int`,
+      medianDaysToSell: percentileDays(0.5),
+      medianPriceRatio: sql<string | null>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${priceRatio})`,
+    })
+    .from(marketDataPoints)
+    .where(and(...whereConditions))
+    .groupBy(month)
+    .orderBy(month),
+  ]);
+
+  const overall = overallResult[0];
+  const listings = overall?.listings ?? 0;
+  const sold = overall?.sold ?? 0;
+
+  return {
+    filters: {
+      categoryId: filters.categoryId,
+      brand: brand ?? null,
+      model: model ?? null,
+    },
+    periodStart,
+    periodEnd: now,
+    listings,
+    sold,
+    daysToSell: {
+      median: round(overall?.median, 1),
+      p25: round(overall?.p25, 1),
+      p75: round(overall?.p75, 1),
+      p90: round(overall?.p90, 1),
+      average: round(overall?.average, 1),
+    },
+    sellThroughRate: listings > 0 ? round(sold / listings, 4) : null,
+    priceRatio: {
+      median: round(overall?.medianPriceRatio, 4),
+      average: round(overall?.averagePriceRatio, 4),
+    },
+    monthlyTrend: trendResult.map((point) => ({
+      month: point.month,
+      listings: point.listings,
+      sold: point.sold,
+      medianDaysToSell: round(point.medianDaysToSell, 1),
+      sellThroughRate: point.listings > 0 ? round(point.sold / point.listings, 4) : null,
+      medianPriceRatio: round(point.medianPriceRatio, 4),
+    })),
+  };
+};
+
+/**
+ * Confidence adjustment (in points) for how liquid the market is: items that
+ * sell quickly and often make observed prices more reliable, while a market
+ * where few listings sell makes any estimate less certain.
+ */
+export const liquidityConfidenceAdjustment = (stats: MarketVelocityStats): number => {
+  if (stats.listings < MIN_LIQUIDITY_SAMPLE || stats.sellThroughRate === null) {
+    return 0;
+  }
+
+  // 0.5 sell-through is neutral
+  let score = (stats.sellThroughRate - 0.5) * 2;
+
+  // Fast markets (under a month) earn a little more, slow ones (over three) lose some
+  const medianDays = stats.daysToSell.median;
+  if (medianDays !== null) {
+    if (medianDays <= 30) score += 0.25;
+    else if (medianDays > 90) score -= 0.25;
+  }
+
+  score = Math.max(-1, Math.min(1, score));
+  return Math.round(score >= 0 ? score * MAX_LIQUIDITY_BONUS : score * MAX_LIQUIDITY_PENALTY);
+};
@@ -0,0 +1,289 @@
+/**
+ * Normalization Dictionary
+ *
+ * Loads canonical brands and their brand/model aliases from the database,
+ * caches them in memory and manages them for the admin API.
+ */
+
+import { eq, and, asc } from 'drizzle-orm';
+import { getDatabase, brands, brandAliases, modelAliases } from '../db.js';
+import {
+  normalizeKey,
+  normalizeBrandModel,
+  mergeVariantSpecifications,
+  type NormalizationDictionary,
+} from './normalize.js';
+
+export type Brand = typeof brands.$inferSelect;
+export type BrandAlias = typeof brandAliases.$inferSelect;
+export type ModelAlias = typeof modelAliases.$inferSelect;
+
+// Saved model alias, or why it couldn't be saved
+export type ModelAliasResult =
+  | { saved: ModelAlias }
+  | { error: 'brand_not_found' | 'no_model' };
+
+export interface NormalizableFields {
+  brand?: string | null;
+  model?: string | null;
+  specifications?: unknown;
+}
+
+// Reload the dictionary at least this often so other instances pick up admin edits
+const DICTIONARY_TTL_MS = 5 * 60 * 1000;
+
+let cachedDictionary: NormalizationDictionary | null = null;
+let cachedAt = 0;
+
+/**
+ * Drop the cached dictionary (after admin changes)
+ */
+export const invalidateNormalizationDictionary = (): void => {
+  cachedDictionary = null;
+};
+
+/**
+ * Current dictionary, loaded from the database when stale
+ */
+export const getNormalizationDictionary = async (): Promise<NormalizationDictionary> => {
+  if (cachedDictionary && Date.now() - cachedAt < DICTIONARY_TTL_MS) {
+    return cachedDictionary;
+  }
+
+  const db = getDatabase();
+  const [brandRows, brandAliasRows, modelAliasRows] = await Promise.all([
+    db.select({ id: brands.id, name: brands.name, slug: brands.slug }).from(brands),
+    db.select({ brandId: brandAliases.brandId, alias: brandAliases.alias }).from(brandAliases),
+    db.select({ brandId: modelAliases.brandId, alias: modelAliases.alias, canonicalModel: modelAliases.canonicalModel }).from(modelAliases),
+  ]);
+
+  const dictionary: NormalizationDictionary = {
+    brandsByAlias: new Map(),
+    modelsByBrand: new Map(),
+    aliasesByBrand: new Map(),
+  };
+
+  const addBrandAlias = (brandId: string, alias: string) => {
+    const brand = brandRows.find((row) => row.id === brandId);
+    if (!brand || !alias) return;
+    dictionary.brandsByAlias.set(alias, { id: brand.id, name: brand.name });
+    const aliases = dictionary.aliasesByBrand.get(brandId);
+    if (aliases) {
+      aliases.push(alias);
+    } else {
+      dictionary.aliasesByBrand.set(brandId, [alias]);
+    }
+  };
+
+  for (const brand of brandRows) {
+    addBrandAlias(brand.id, normalizeKey(brand.name));
+    if (normalizeKey(brand.slug) !== normalizeKey(brand.name)) {
+      addBrandAlias(brand.id, normalizeKey(brand.slug));
+    }
+  }
+  for (const alias of brandAliasRows) {
+    addBrandAlias(alias.brandId, alias.alias);
+  }
+  for (const alias of modelAliasRows) {
+    const models = dictionary.modelsByBrand.get(alias.brandId) ?? new Map<string, string>();
+    models.set(alias.alias, alias.canonicalModel);
+    dictionary.modelsByBrand.set(alias.brandId, models);
+  }
+
+  cachedDictionary = dictionary;
+  cachedAt = Date.now();
+  return dictionary;
+};
+
+/**
+ * Normalize the brand, model and specifications of an asset or market data
+ * record. Fields that are absent from the input stay absent.
+ */
+export const normalizeRecord = <T extends NormalizableFields>(
+  record: T,
+  dictionary: NormalizationDictionary
+): T => {
+  if (record.brand === undefined && record.model === undefined) {
+    return record;
+  }
+
+  const identity = normalizeBrandModel(record.brand, record.model, dictionary);
+  const normalized = { ...record };
+
+  if (record.brand !== undefined || identity.brand !== null) {
+    normalized.brand = identity.brand;
+  }
+  if (record.model !== undefined) {
+    normalized.model = identity.model;
+  }
+  if (Object.keys(identity.variant).length > 0) {
+    normalized.specifications = mergeVariantSpecifications(record.specifications, identity.variant);
+  }
+
+  return normalized;
+};
+
+/**
+ * Brand and model query filters in the normalized form they are stored in, so
+ * "apple" or "iphone 13" match "Apple" and "iPhone 13". Filters that aren't
+ * given stay undefined.
+ */
+export const normalizeBrandModelFilters = async (
+  filters: { brand?: string | null; model?: string | null }
+): Promise<{ brand?: string; model?: string }> => {
+  if (!filters.brand && !filters.model) {
+    return {};
+  }
+
+  const identity = normalizeBrandModel(filters.brand, filters.model, await getNormalizationDictionary());
+  return {
+    brand: filters.brand ? identity.brand ?? filters.brand : undefined,
+    model: filters.model ? identity.model ?? filters.model : undefined,
+  };
+};
+
+/**
+ * Brands with their aliases
+ */
+export const listBrands = async () => {
+  const db = getDatabase();
+  const [brandRows, brandAliasRows, modelAliasRows] = await Promise.all([
+    db.select().from(brands).orderBy(asc(brands.name)),
+    db.select().from(brandAliases).orderBy(asc(brandAliases.alias)),
+    db.select().from(modelAliases).orderBy(asc(modelAliases.alias)),
+  ]);
+
+  return brandRows.map((brand) => ({
+    ...brand,
+    aliases: brandAliasRows.filter((alias) => alias.brandId === brand.id),
+    modelAliases: modelAliasRows.filter((alias) => alias.brandId === brand.id),
+  }));
+};
+
+/**
+ * Create a canonical brand with optional aliases
+ */
+export const createBrand = async (name: string, aliases: string[] = []): Promise<Brand> => {
+  const db = getDatabase();
+  const slug = normalizeKey(name).replace(/ /g, '-');
+
+  const brand = await db.transaction(async (tx) => {
+    const [created] = await tx.insert(brands).values({ name: name.trim(), slug }).returning();
+
+    const aliasKeys = [...new Set(aliases.map(normalizeKey))].filter(Boolean);
+    if (aliasKeys.length > 0) {
+      await tx.insert(brandAliases).values(aliasKeys.map((alias) => ({ brandId: created.id, alias })));
+    }
+
+    return created;
+  });
+
+  invalidateNormalizationDictionary();
+  return brand;
+};
+
+/**
+ * Rename a brand. Returns null if it does not exist.
+ */
+export const updateBrand = async (brandId: string, name: string): Promise<Brand | null> => {
+  const db = getDatabase();
+  const [updated] = await db.update(brands)
+    .set({ name: name.trim(), slug: normalizeKey(name).replace(/ /g, '-'), updatedAt: new Date() })
+    .where(eq(brands.id, brandId))
+    .returning();
+
+  invalidateNormalizationDictionary();
+  return updated ?? null;
+};
+
+/**
+ * Delete a brand and its aliases. Returns false if it does not exist.
+ */
+export const deleteBrand = async (brandId: string): Promise<boolean> => {
+  const db = getDatabase();
+  const deleted = await db.delete(brands).where(eq(brands.id, brandId)).returning({ id: brands.id });
+
+  invalidateNormalizationDictionary();
+  return deleted.length > 0;
+};
+
+/**
+ * Add a brand alias (stored normalized). Returns null if the brand does not exist.
+ */
+export const addBrandAlias = async (brandId: string, alias: string): Promise<BrandAlias | null> => {
+  const db = getDatabase();
+  const [brand] = await db.select({ id: brands.id }).from(brands).where(eq(brands.id, brandId)).limit(1);
+  if (!brand) {
+    return null;
+  }
+
+  const [created] = await db.insert(brandAliases)
+    .values({ brandId, alias: normalizeKey(alias) })
+    .returning();
+
+  invalidateNormalizationDictionary();
+  return created;
+};
+
+/**
+ * Remove a brand alias. Returns false if it does not exist.
+ */
+export const deleteBrandAlias = async (brandId: string, aliasId: string): Promise<boolean> => {
+  const db = getDatabase();
+  const deleted = await db.delete(brandAliases)
+    .where(and(eq(brandAliases.id, aliasId), eq(brandAliases.brandId, brandId)))
+    .returning({ id: brandAliases.id });
+
+  invalidateNormalizationDictionary();
+  return deleted.length > 0;
+};
+
+/**
+ * Map a model spelling to its canonical name. The alias goes through the same
+ * normalization as incoming models (storage and brand prefix removed,
+ * tokenized), so "Apple iPhone14Pro 128GB" covers "IPHONE 14 PRO" too.
+ * Existing aliases for the same key are replaced. Fails with 'no_model' when
+ * nothing of the model is left after normalization ("128GB", "!!!"): lookups
+ * never produce such a key.
+ */
+export const upsertModelAlias = async (
+  brandId: string,
+  alias: string,
+  canonicalModel: string
+): Promise<ModelAliasResult> => {
+  const db = getDatabase();
+  const [brand] = await db.select({ name: brands.name }).from(brands).where(eq(brands.id, brandId)).limit(1);
+  if (!brand) {
+    return { error: 'brand_not_found' };
+  }
+
+  const dictionary = await getNormalizationDictionary();
+  const key = normalizeBrandModel(brand.name, alias, dictionary).modelKey;
+  if (!key) {
+    return { error: 'no_model' };
+  }
+
+  const [saved] = await db.insert(modelAliases)
+    .values({ brandId, alias: key, canonicalModel: canonicalModel.trim() })
+    .onConflictDoUpdate({
+      target: [modelAliases.brandId, modelAliases.alias],
+      set: { canonicalModel: canonicalModel.trim() },
+    })
+    .returning();
+
+  invalidateNormalizationDictionary();
+  return { saved };
+};
+
+/**
+ * Remove a model alias. Returns false if it does not exist.
+ */
+export const deleteModelAlias = async (brandId: string, aliasId: string): Promise<boolean> => {
+  const db = getDatabase();
+  const deleted = await db.delete(modelAliases)
+    .where(and(eq(modelAliases.id, aliasId), eq(modelAliases.brandId, brandId)))
+    .returning({ id: modelAliases.id });
+
+  invalidateNormalizationDictionary();
+  return deleted.length > 0;
+};
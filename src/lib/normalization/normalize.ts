@@ -0,0 +1,211 @@
+/**
+ * Brand and Model Normalization
+ *
+ * Turns free-text brand and model strings into canonical values so assets
+ * and market data match: "IPHONE 14 PRO 128GB", "Apple iPhone14Pro" and
+ * "iPhone 14 Pro" all become brand "Apple", model "iPhone 14 Pro" (given a
+ * model alias), with the storage variant moved into specifications.
+ */
+
+export interface DictionaryBrand {
+  id: string;
+  name: string;
+}
+
+export interface NormalizationDictionary {
+  // Normalized alias (including the canonical name and slug) -> brand
+  brandsByAlias: Map<string, DictionaryBrand>;
+  // Brand ID -> normalized model key -> canonical model
+  modelsByBrand: Map<string, Map<string, string>>;
+  // Brand ID -> every normalized alias of the brand
+  aliasesByBrand: Map<string, string[]>;
+}
+
+export interface VariantSpecifications {
+  storage?: string;
+}
+
+export interface NormalizedIdentity {
+  brand: string | null;
+  model: string | null;
+  // Dictionary brand the value was matched to, if any
+  brandId: string | null;
+  // Tokenized model used for alias lookups
+  modelKey: string | null;
+  variant: VariantSpecifications;
+}
+
+// Legal-form suffixes dropped from brand names
+const CORPORATE_SUFFIXES = new Set(['inc', 'ltd', 'llc', 'gmbh', 'sa', 'sas', 'sarl', 'ag', 'co', 'corp', 'corporation', 'company']);
+
+// "128GB", "1 TB", "256 Go" (French), "1,5 To"
+const STORAGE_PATTERN = /\b(\d+(?:[.,]\d+)?)\s?(gb|go|tb|to)\b/i;
+
+/**
+ * Lowercase, strip accents and collapse anything that isn't a letter or digit
+ */
+export const normalizeKey = (text: string): string =>
+  text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+
+/**
+ * Pull the storage capacity out of a model string
+ */
+export const extractStorage = (text: string): { storage: string | null; rest: string } => {
+  const match = text.match(STORAGE_PATTERN);
+  if (!match) {
+    return { storage: null, rest: text };
+  }
+
+  const amount = match[1].replace(',', '.');
+  const unit = match[2].toLowerCase().startsWith('t') ? 'TB' : 'GB';
+
+  return {
+    storage: `${amount}${unit}`,
+    rest: text.replace(match[0], ' '),
+  };
+};
+
+/**
+ * Split a model into tokens, separating glued words and numbers
+ * ("iphone14pro" -> iphone, 14, pro) while keeping short codes like "s22"
+ */
+export const tokenizeModel = (text: string): string[] =>
+  normalizeKey(text)
+    .replace(/([a-z]{3,})(\d)/g, '$1 $2')
+    .replace(/(\d)([a-z]{3,})/g, '$1 $2')
+    .split(' ')
+    .filter(Boolean);
+
+const capitalize = (token: string) => token.charAt(0).toUpperCase() + token.slice(1);
+
+/**
+ * Deterministic display form for a model without an alias
+ */
+export const formatModelTokens = (tokens: string[]): string =>
+  tokens
+    .map((token) => {
+      if (/^\d+$/.test(token)) return token;
+      // Codes ("s22", "ps5") and short words ("se", "xl") read as uppercase
+      if (/\d/.test(token) || token.length <= 2) return token.toUpperCase();
+      return capitalize(token);
+    })
+    .join(' ');
+
+/**
+ * Deterministic display form for a brand without a dictionary entry
+ */
+const formatBrandKey = (key: string): string =>
+  key
+    .split(' ')
+    .map((token) => token.length <= 3 && !/[aeiouy]/.test(token) ? token.toUpperCase() : capitalize(token))
+    .join(' ');
+
+const brandKeyOf = (brand: string): string => {
+  const tokens = normalizeKey(brand).split(' ').filter(Boolean);
+  while (tokens.length > 1 && CORPORATE_SUFFIXES.has(tokens[tokens.length - 1])) {
+    tokens.pop();
+  }
+  return tokens.join(' ');
+};
+
+/**
+ * Drop leading model tokens that repeat the brand ("Apple iPhone 14" -> "iPhone 14")
+ */
+const stripBrandPrefix = (tokens: string[], brandKeys: string[]): string[] => {
+  for (const key of [...brandKeys].sort((a, b) => b.length - a.length)) {
+    const keyTokens = key.split(' ');
+    if (keyTokens.length < tokens.length && keyTokens.every((token, index) => tokens[index] === token)) {
+      return tokens.slice(keyTokens.length);
+    }
+  }
+  return tokens;
+};
+
+/**
+ * Normalize a brand/model pair against the dictionary
+ */
+export const normalizeBrandModel = (
+  rawBrand: string | null | undefined,
+  rawModel: string | null | undefined,
+  dictionary: NormalizationDictionary
+): NormalizedIdentity => {
+  const variant: VariantSpecifications = {};
+
+  let modelText = rawModel?.trim() || null;
+  if (modelText) {
+    const { storage, rest } = extractStorage(modelText);
+    if (storage) variant.storage = storage;
+    modelText = rest;
+  }
+  let modelTokens = modelText ? tokenizeModel(modelText) : [];
+
+  // Resolve the brand, or infer it from the start of the model
+  let dictionaryBrand: DictionaryBrand | null = null;
+  let brandKey = rawBrand?.trim() ? brandKeyOf(rawBrand) : '';
+
+  if (brandKey) {
+    dictionaryBrand = dictionary.brandsByAlias.get(brandKey) ?? null;
+  } else {
+    for (const length of [2, 1]) {
+      if (modelTokens.length <= length) continue;
+      const candidate = dictionary.brandsByAlias.get(modelTokens.slice(0, length).join(' '));
+      if (candidate) {
+        dictionaryBrand = candidate;
+        brandKey = modelTokens.slice(0, length).join(' ');
+        break;
+      }
+    }
+  }
+
+  const brandKeys = dictionaryBrand
+    ? dictionary.aliasesByBrand.get(dictionaryBrand.id) ?? [brandKey]
+    : brandKey ? [brandKey] : [];
+  modelTokens = stripBrandPrefix(modelTokens, brandKeys);
+
+  const modelKey = modelTokens.length > 0 ? modelTokens.join(' ') : null;
+
+  // A model known under exactly one brand identifies the brand ("iPhone 14 Pro")
+  if (!dictionaryBrand && !brandKey && modelKey) {
+    const owners = [...dictionary.modelsByBrand.entries()].filter(([, models]) => models.has(modelKey));
+    if (owners.length === 1) {
+      const [brandId] = owners[0];
+      dictionaryBrand = [...dictionary.brandsByAlias.values()].find((brand) => brand.id === brandId) ?? null;
+    }
+  }
+
+  const canonicalModel = dictionaryBrand && modelKey
+    ? dictionary.modelsByBrand.get(dictionaryBrand.id)?.get(modelKey)
+    : undefined;
+
+  return {
+    brand: dictionaryBrand?.name ?? (brandKey ? formatBrandKey(brandKey) : null),
+    model: canonicalModel ?? (modelKey ? formatModelTokens(modelTokens) : null),
+    brandId: dictionaryBrand?.id ?? null,
+    modelKey,
+    variant,
+  };
+};
+
+/**
+ * Add extracted variant attributes to specifications without overwriting
+ * values that were provided explicitly
+ */
+export const mergeVariantSpecifications = (
+  specifications: unknown,
+  variant: VariantSpecifications
+): Record<string, unknown> | null => {
+  const base = specifications && typeof specifications === 'object' && !Array.isArray(specifications)
+    ? specifications as Record<string, unknown>
+    : null;
+
+  if (Object.keys(variant).length === 0) {
+    return base;
+  }
+
+  return { ...variant, ...base };
+};
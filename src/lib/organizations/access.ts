@@ -0,0 +1,101 @@
+/**
+ * Asset Access
+ *
+ * Resolves what a user may do with an asset. Personal assets (no
+ * organization) belong to their owner; organization assets are governed by
+ * the user's role in an active membership of that organization.
+ */
+
+import { eq, and, or, isNull, inArray, sql, type SQL } from 'drizzle-orm';
+import { getDatabase, assets, organizations, userOrganizations } from '../db.js';
+import { hasPermission, PERSONAL_PERMISSIONS, type OrganizationRole, type Permission } from './permissions.js';
+
+export type AssetAction = 'read' | 'create' | 'update' | 'delete';
+
+// What can be checked against an asset: an asset action (shorthand for its
+// asset:* permission) or any permission, such as valuation:compute
+export type AssetAccess = AssetAction | Permission;
+
+export interface Membership {
+  organizationId: string;
+  role: OrganizationRole;
+}
+
+const toPermission = (access: AssetAccess): Permission =>
+  access.includes(':') ? access as Permission : `asset:${access as AssetAction}`;
+
+/**
+ * Whether a role allows an action on organization assets
+ */
+export const roleAllowsAssetAction = (role: OrganizationRole, access: AssetAccess): boolean =>
+  hasPermission(role, toPermission(access));
+
+/**
+ * Active memberships of a user: not suspended, not left, in organizations
+ * that still exist
+ */
+export const getActiveMemberships = async (userId: string, organizationId?: string): Promise<Membership[]> => {
+  const db = getDatabase();
+  const conditions = [
+    eq(userOrganizations.userId, userId),
+    eq(userOrganizations.isActive, true),
+    isNull(userOrganizations.leftAt),
+    isNull(organizations.deletedAt),
+  ];
+  if (organizationId) {
+    conditions.push(eq(userOrganizations.organizationId, organizationId));
+  }
+
+  return db.select({
+    organizationId: userOrganizations.organizationId,
+    role: userOrganizations.role,
+  })
+  .from(userOrganizations)
+  .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
+  .where(and(...conditions));
+};
+
+/**
+ * Active membership of a user in one organization, or null
+ */
+export const getActiveMembership = async (userId: string, organizationId: string): Promise<Membership | null> => {
+  const [membership] = await getActiveMemberships(userId, organizationId);
+  return membership ?? null;
+};
+
+/**
+ * Condition matching the assets a user may perform `action` on: their own
+ * personal assets plus the assets of organizations where their role allows it
+ */
+export const accessibleAssetsCondition = (
+  userId: string,
+  memberships: Membership[],
+  action: AssetAccess = 'read'
+): SQL => {
+  const personal = PERSONAL_PERMISSIONS.includes(toPermission(action))
+    ? and(isNull(assets.organizationId), eq(assets.userId, userId))!
+    : sql`false`;
+  const organizationIds = memberships
+    .filter((membership) => roleAllowsAssetAction(membership.role, action))
+    .map((membership) => membership.organizationId);
+
+  return organizationIds.length > 0
+    ? or(personal, inArray(assets.organizationId, organizationIds))!
+    : personal;
+};
+
+/**
+ * Whether a user may perform `action` on an asset
+ */
+export const canAccessAsset = async (
+  userId: string,
+  asset: { userId: string; organizationId: string | null },
+  action: AssetAccess
+): Promise<boolean> => {
+  if (!asset.organizationId) {
+    return asset.userId === userId && PERSONAL_PERMISSIONS.includes(toPermission(action));
+  }
+
+  const membership = await getActiveMembership(userId, asset.organizationId);
+  return membership !== null && roleAllowsAssetAction(membership.role, action);
+};
@@ -0,0 +1,250 @@
+/**
+ * Organization Invitations
+ *
+ * Invitations are addressed to an email, so they work for existing users and
+ * for people who register later. The plain token is only handed out once
+ * (to be emailed); the database keeps its SHA-256 hash.
+ */
+
+import { createHash } from 'crypto';
+import { eq, and, gt, isNull, sql } from 'drizzle-orm';
+import { getDatabase, organizations, organizationInvitations, userOrganizations } from '../db.js';
+import { generateResetToken } from '../auth/passwords.js';
+
+export type OrganizationInvitation = typeof organizationInvitations.$inferSelect;
+export type InvitationStatus = 'pending' | 'accepted' | 'declined' | 'revoked' | 'expired';
+
+export const INVITATION_EXPIRES_IN = 60 * 60 * 24 * 7; // 7 days
+
+/**
+ * SHA-256 hash of an invitation token, as stored
+ */
+export const hashInvitationToken = (token: string): string =>
+  createHash('sha256').update(token).digest('hex');
+
+/**
+ * Emails are matched case-insensitively
+ */
+export const normalizeInvitationEmail = (email: string): string => email.trim().toLowerCase();
+
+/**
+ * Where an invitation stands
+ */
+export const invitationStatus = (invitation: OrganizationInvitation, now: Date = new Date()): InvitationStatus => {
+  if (invitation.acceptedAt) return 'accepted';
+  if (invitation.declinedAt) return 'declined';
+  if (invitation.revokedAt) return 'revoked';
+  return invitation.expiresAt <= now ? 'expired' : 'pending';
+};
+
+// Invitations that can still be accepted or declined
+const isPending = (now: Date) => and(
+  isNull(organizationInvitations.acceptedAt),
+  isNull(organizationInvitations.declinedAt),
+  isNull(organizationInvitations.revokedAt),
+  gt(organizationInvitations.expiresAt, now)
+);
+
+/**
+ * Create an invitation, revoking any pending one for the same email so only
+ * the latest token works. Returns the invitation and its plain token.
+ */
+export const createInvitation = async (input: {
+  organizationId: string;
+  email: string;
+  role: OrganizationInvitation['role'];
+  invitedBy: string;
+}): Promise<{ invitation: OrganizationInvitation; token: string }> => {
+  const db = getDatabase();
+  const email = normalizeInvitationEmail(input.email);
+  const token = generateResetToken();
+  const now = new Date();
+
+  const invitation = await db.transaction(async (tx) => {
+    await tx.update(organizationInvitations)
+      .set({ revokedAt: now })
+      .where(and(
+        eq(organizationInvitations.organizationId, input.organizationId),
+        eq(organizationInvitations.email, email),
+        isPending(now)
+      ));
+
+    const [created] = await tx.insert(organizationInvitations)
+      .values({
+        organizationId: input.organizationId,
+        email,
+        role: input.role,
+        tokenHash: hashInvitationToken(token),
+        invitedBy: input.invitedBy,
+        expiresAt: new Date(now.getTime() + INVITATION_EXPIRES_IN * 1000),
+      })
+      .returning();
+
+    return created;
+  });
+
+  return { invitation, token };
+};
+
+/**
+ * Invitation for a token with its organization, whatever its status. Null when
+ * the token is unknown or the organization was deleted.
+ */
+export const findInvitationByToken = async (token: string) => {
+  const db = getDatabase();
+  const [result] = await db.select({
+    invitation: organizationInvitations,
+    organization: {
+      id: organizations.id,
+      name: organizations.name,
+      slug: organizations.slug,
+      logo: organizations.logo,
+    },
+  })
+  .from(organizationInvitations)
+  .innerJoin(organizations, eq(organizationInvitations.organizationId, organizations.id))
+  .where(and(
+    eq(organizationInvitations.tokenHash, hashInvitationToken(token)),
+    isNull(organizations.deletedAt)
+  ))
+  .limit(1);
+
+  return result ?? null;
+};
+
+/**
+ * Accept an invitation on behalf of a user: creates the membership, or
+ * reactivates a former one with the invited role. Returns false when the
+ * invitation was used, revoked or expired in the meantime.
+ */
+export const acceptInvitation = async (invitation: OrganizationInvitation, userId: string): Promise<boolean> => {
+  const db = getDatabase();
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    // Claiming the invitation first makes the token single-use under concurrency
+    const claimed = await tx.update(organizationInvitations)
+      .set({ acceptedAt: now, acceptedBy: userId })
+      .where(and(eq(organizationInvitations.id, invitation.id), isPending(now)))
+      .returning({ id: organizationInvitations.id });
+
+    if (claimed.length === 0) {
+      return false;
+    }
+
+    await tx.insert(userOrganizations)
+      .values({
+        userId,
+        organizationId: invitation.organizationId,
+        role: invitation.role,
+        isActive: true,
+        invitedBy: invitation.invitedBy,
+        invitedAt: invitation.createdAt,
+        joinedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: [userOrganizations.userId, userOrganizations.organizationId],
+        set: {
+          role: sql`excluded.role`,
+          isActive: true,
+          invitedBy: sql`excluded.invited_by`,
+          invitedAt: sql`excluded.invited_at`,
+          joinedAt: now,
+          leftAt: null,
+        },
+      });
+
+    return true;
+  });
+};
+
+/**
+ * Decline a pending invitation. Returns false when it is no longer pending.
+ */
+export const declineInvitation = async (invitationId: string): Promise<boolean> => {
+  const db = getDatabase();
+  const now = new Date();
+
+  const declined = await db.update(organizationInvitations)
+    .set({ declinedAt: now })
+    .where(and(eq(organizationInvitations.id, invitationId), isPending(now)))
+    .returning({ id: organizationInvitations.id });
+
+  return declined.length > 0;
+};
+
+/**
+ * Revoke a pending invitation of an organization. Returns false when there is
+ * no such pending invitation.
+ */
+export const revokeInvitation = async (organizationId: string, invitationId: string): Promise<boolean> => {
+  const db = getDatabase();
+  const now = new Date();
+
+  const revoked = await db.update(organizationInvitations)
+    .set({ revokedAt: now })
+    .where(and(
+      eq(organizationInvitations.id, invitationId),
+      eq(organizationInvitations.organizationId, organizationId),
+      isPending(now)
+    ))
+    .returning({ id: organizationInvitations.id });
+
+  return revoked.length > 0;
+};
+
+/**
+ * Pending invitations, for an organization or addressed to an email
+ */
+export const listPendingInvitations = async (filter: { organizationId?: string; email?: string }) => {
+  const db = getDatabase();
+  const conditions = [isPending(new Date()), isNull(organizations.deletedAt)];
+  if (filter.organizationId) {
+    conditions.push(eq(organizationInvitations.organizationId, filter.organizationId));
+  }
+  if (filter.email) {
+    conditions.push(eq(organizationInvitations.email, normalizeInvitationEmail(filter.email)));
+  }
+
+  return db.select({
+    id: organizationInvitations.id,
+    email: organizationInvitations.email,
+    role: organizationInvitations.role,
+    invitedBy: organizationInvitations.invitedBy,
+    expiresAt: organizationInvitations.expiresAt,
+    createdAt: organizationInvitations.createdAt,
+    organization: {
+      id: organizations.id,
+      name: organizations.name,
+      slug: organizations.slug,
+    },
+  })
+  .from(organizationInvitations)
+  .innerJoin(organizations, eq(organizationInvitations.organizationId, organizations.id))
+  .where(and(...conditions))
+  .orderBy(organizationInvitations.createdAt);
+};
+
+/**
+ * Accept every pending invitation addressed to a verified email. Returns the
+ * IDs of the organizations joined.
+ */
+export const attachPendingInvitations = async (userId: string, email: string): Promise<string[]> => {
+  const db = getDatabase();
+  const pending = await db.select({ invitation: organizationInvitations })
+    .from(organizationInvitations)
+    .innerJoin(organizations, eq(organizationInvitations.organizationId, organizations.id))
+    .where(and(
+      eq(organizationInvitations.email, normalizeInvitationEmail(email)),
+      isPending(new Date()),
+      isNull(organizations.deletedAt)
+    ));
+
+  const joined: string[] = [];
+  for (const { invitation } of pending) {
+    if (await acceptInvitation(invitation, userId)) {
+      joined.push(invitation.organizationId);
+    }
+  }
+  return joined;
+};
@@ -0,0 +1,221 @@
+/**
+ * Organization Members
+ *
+ * Membership lifecycle helpers: role changes, suspension, removal and
+ * ownership transfer. Members are never deleted; removal stamps `leftAt` so
+ * past membership stays on record.
+ */
+
+import { eq, and, isNull, inArray } from 'drizzle-orm';
+import { getDatabase, assets, userOrganizations, users } from '../db.js';
+import type { OrganizationRole } from './permissions.js';
+import { recordAssetChanges, type AuditContext, type Transaction } from '../assets/history.js';
+import { assetColumns } from '../assets/search.js';
+
+export type Member = {
+  userId: string;
+  role: OrganizationRole;
+  isActive: boolean | null;
+  leftAt: Date | null;
+};
+
+export interface AssignedAssetsOutcome {
+  // Assets handed over to another member
+  reassigned: number;
+  // Assets left unassigned and flagged for review
+  flagged: number;
+}
+
+/**
+ * Membership row of a user in an organization (current or former), or null
+ */
+export const getMember = async (organizationId: string, userId: string): Promise<Member | null> => {
+  const db = getDatabase();
+  const [member] = await db.select({
+    userId: userOrganizations.userId,
+    role: userOrganizations.role,
+    isActive: userOrganizations.isActive,
+    leftAt: userOrganizations.leftAt,
+  })
+  .from(userOrganizations)
+  .where(and(
+    eq(userOrganizations.organizationId, organizationId),
+    eq(userOrganizations.userId, userId)
+  ))
+  .limit(1);
+
+  return member ?? null;
+};
+
+/**
+ * Whether a membership is current and not suspended
+ */
+export const isActiveMember = (member: Member | null): member is Member =>
+  member !== null && member.isActive === true && member.leftAt === null;
+
+/**
+ * Whether `userId` is the only active owner of an organization. Locks the
+ * active owner memberships until the transaction ends: a concurrent change
+ * waits, then sees the committed owners, so two owners can't step each other
+ * down at the same time.
+ */
+export const isLastActiveOwner = async (tx: Transaction, organizationId: string, userId: string): Promise<boolean> => {
+  const owners = await tx.select({ userId: userOrganizations.userId })
+    .from(userOrganizations)
+    .where(and(
+      eq(userOrganizations.organizationId, organizationId),
+      eq(userOrganizations.role, 'owner'),
+      eq(userOrganizations.isActive, true),
+      isNull(userOrganizations.leftAt)
+    ))
+    .for('update');
+
+  return owners.length === 1 && owners[0]!.userId === userId;
+};
+
+/**
+ * Members of an organization with their profile, former members included on
+ * request
+ */
+export const listMembers = async (organizationId: string, includeFormer = false) => {
+  const db = getDatabase();
+  const conditions = [eq(userOrganizations.organizationId, organizationId)];
+  if (!includeFormer) {
+    conditions.push(isNull(userOrganizations.leftAt));
+  }
+
+  return db.select({
+    userId: userOrganizations.userId,
+    email: users.email,
+    firstName: users.firstName,
+    lastName: users.lastName,
+    avatar: users.avatar,
+    role: userOrganizations.role,
+    isActive: userOrganizations.isActive,
+    invitedBy: userOrganizations.invitedBy,
+    invitedAt: userOrganizations.invitedAt,
+    joinedAt: userOrganizations.joinedAt,
+    leftAt: userOrganizations.leftAt,
+  })
+  .from(userOrganizations)
+  .innerJoin(users, eq(userOrganizations.userId, users.id))
+  .where(and(...conditions))
+  .orderBy(userOrganizations.joinedAt);
+};
+
+/**
+ * Remove a member: stamp `leftAt`, deactivate the membership and hand their
+ * assigned organization assets to `reassignTo`, or unassign and flag them for
+ * review when no one is given. Asset changes are recorded in their history.
+ * Returns null, changing nothing, when the member is the last active owner.
+ */
+export const removeMember = async (
+  organizationId: string,
+  userId: string,
+  context: AuditContext,
+  reassignTo?: string
+): Promise<AssignedAssetsOutcome | null> => {
+  const db = getDatabase();
+  const now = new Date();
+
+  return db.transaction(async (tx) => {
+    if (await isLastActiveOwner(tx, organizationId, userId)) {
+      return null;
+    }
+
+    await tx.update(userOrganizations)
+      .set({ isActive: false, leftAt: now })
+      .where(and(
+        eq(userOrganizations.organizationId, organizationId),
+        eq(userOrganizations.userId, userId)
+      ));
+
+    const assignedToMember = and(
+      eq(assets.organizationId, organizationId),
+      eq(assets.assignedTo, userId),
+      isNull(assets.deletedAt)
+    );
+
+    const before = await tx.select(assetColumns).from(assets).where(assignedToMember).for('update');
+
+    const updated = reassignTo
+      ? await tx.update(assets)
+        .set({ assignedTo: reassignTo, updatedAt: now })
+        .where(assignedToMember)
+        .returning(assetColumns)
+      : await tx.update(assets)
+        .set({
+          assignedTo: null,
+          reviewFlaggedAt: now,
+          reviewReason: 'Assignee left the organization',
+          updatedAt: now,
+        })
+        .where(assignedToMember)
+        .returning(assetColumns);
+
+    const beforeById = new Map(before.map((asset) => [asset.id, asset]));
+    for (const asset of updated) {
+      const previous = beforeById.get(asset.id);
+      if (previous) {
+        await recordAssetChanges(tx, 'reassigned', previous, asset, context);
+      }
+    }
+
+    return reassignTo
+      ? { reassigned: updated.length, flagged: 0 }
+      : { reassigned: 0, flagged: updated.length };
+  });
+};
+
+/**
+ * Make `toUserId` an owner and step the current owner down to
+ * `previousOwnerRole`. Returns false, changing nothing, unless `fromUserId`
+ * is still an active owner and `toUserId` an active member.
+ */
+export const transferOwnership = async (
+  organizationId: string,
+  fromUserId: string,
+  toUserId: string,
+  previousOwnerRole: OrganizationRole = 'admin'
+): Promise<boolean> => {
+  const db = getDatabase();
+
+  return db.transaction(async (tx) => {
+    // Lock both memberships so neither changes before the updates below
+    const members = await tx.select({
+      userId: userOrganizations.userId,
+      role: userOrganizations.role,
+    })
+    .from(userOrganizations)
+    .where(and(
+      eq(userOrganizations.organizationId, organizationId),
+      inArray(userOrganizations.userId, [fromUserId, toUserId]),
+      eq(userOrganizations.isActive, true),
+      isNull(userOrganizations.leftAt)
+    ))
+    .for('update');
+
+    const from = members.find((member) => member.userId === fromUserId);
+    const to = members.find((member) => member.userId === toUserId);
+    if (from?.role !== 'owner' || !to) {
+      return false;
+    }
+
+    // Promote first so the organization is never without an owner
+    await tx.update(userOrganizations)
+      .set({ role: 'owner' })
+      .where(and(
+        eq(userOrganizations.organizationId, organizationId),
+        eq(userOrganizations.userId, toUserId)
+      ));
+
+    await tx.update(userOrganizations)
+      .set({ role: previousOwnerRole })
+      .where(and(
+        eq(userOrganizations.organizationId, organizationId),
+        eq(userOrganizations.userId, fromUserId)
+      ));
+
+    return true;
+  });
+};
@@ -0,0 +1,75 @@
+/**
+ * Organization Permissions
+ *
+ * Declarative matrix of what each organization role may do. Route guards and
+ * asset access checks read from it, and clients fetch it to hide actions the
+ * user can't perform. Only permissions some route enforces belong here.
+ */
+
+import type { userOrganizations } from '../db.js';
+
+export type OrganizationRole = typeof userOrganizations.$inferSelect['role'];
+
+export const PERMISSIONS = [
+  'asset:read',
+  'asset:create',
+  'asset:update',
+  'asset:delete',
+  'valuation:read',
+  'valuation:compute',
+  'report:read',
+  'member:read',
+  'member:invite',
+  'member:manage',
+  'org:update',
+  'org:delete',
+  'org:billing',
+] as const;
+
+export type Permission = typeof PERMISSIONS[number];
+
+// owner: full access and billing
+// admin: all asset operations and user management
+// manager: add and modify assets, view reports
+// viewer: read-only
+// accountant: reports and depreciation calculations
+const ROLE_PERMISSIONS: Record<OrganizationRole, readonly Permission[]> = {
+  owner: PERMISSIONS,
+  admin: [
+    'asset:read', 'asset:create', 'asset:update', 'asset:delete',
+    'valuation:read', 'valuation:compute', 'report:read',
+    'member:read', 'member:invite', 'member:manage',
+    'org:update',
+  ],
+  manager: [
+    'asset:read', 'asset:create', 'asset:update',
+    'valuation:read', 'valuation:compute', 'report:read',
+    'member:read',
+  ],
+  viewer: [
+    'asset:read',
+    'valuation:read',
+    'member:read',
+  ],
+  accountant: [
+    'asset:read',
+    'valuation:read', 'valuation:compute', 'report:read',
+    'member:read',
+  ],
+};
+
+// What a user may do with their own personal assets
+export const PERSONAL_PERMISSIONS: readonly Permission[] = PERMISSIONS.filter(
+  (permission) => /^(asset|valuation|report):/.test(permission)
+);
+
+/**
+ * Whether a role grants a permission
+ */
+export const hasPermission = (role: OrganizationRole, permission: Permission): boolean =>
+  ROLE_PERMISSIONS[role].includes(permission);
+
+/**
+ * Every permission granted to a role
+ */
+export const permissionsFor = (role: OrganizationRole): Permission[] => [...ROLE_PERMISSIONS[role]];
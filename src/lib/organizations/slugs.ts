@@ -0,0 +1,58 @@
+/**
+ * Organization Slugs
+ *
+ * URL-friendly identifiers generated from organization names. Slugs stay
+ * reserved after a soft delete, so generation checks every organization.
+ */
+
+import { eq, like, or } from 'drizzle-orm';
+import { getDatabase, organizations } from '../db.js';
+import { normalizeKey } from '../normalization/normalize.js';
+
+// Leaves room for a "-<n>" suffix within the 100 character column
+const MAX_BASE_LENGTH = 90;
+
+/**
+ * Slug for a name: lowercase ASCII words joined by hyphens
+ */
+export const slugify = (name: string): string => {
+  const slug = normalizeKey(name).replace(/ /g, '-').slice(0, MAX_BASE_LENGTH).replace(/-+$/, '');
+  return slug.length >= 2 ? slug : 'organization';
+};
+
+/**
+ * Whether an organization (deleted or not) already uses a slug
+ */
+export const isSlugTaken = async (slug: string): Promise<boolean> => {
+  const db = getDatabase();
+  const [existing] = await db.select({ id: organizations.id })
+    .from(organizations)
+    .where(eq(organizations.slug, slug))
+    .limit(1);
+
+  return existing !== undefined;
+};
+
+/**
+ * Unused slug for an organization name, suffixed with -2, -3, ... when the
+ * plain slug is taken
+ */
+export const generateOrganizationSlug = async (name: string): Promise<string> => {
+  const base = slugify(name);
+  const db = getDatabase();
+
+  const taken = new Set((await db.select({ slug: organizations.slug })
+    .from(organizations)
+    .where(or(eq(organizations.slug, base), like(organizations.slug, `${base}-%`))))
+    .map((row) => row.slug));
+
+  if (!taken.has(base)) {
+    return base;
+  }
+
+  let suffix = 2;
+  while (taken.has(`${base}-${suffix}`)) {
+    suffix++;
+  }
+  return `${base}-${suffix}`;
+};
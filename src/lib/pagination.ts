@@ -0,0 +1,75 @@
+/**
+ * Keyset Pagination
+ *
+ * Opaque cursors for listings. A cursor holds the sort key and ID of the last
+ * row of a page; the next page starts strictly after that row, so pages stay
+ * consistent while rows are added or removed and no rows are skipped.
+ *
+ * Ordering is always (sort key, id) so ties are broken deterministically.
+ * Sort keys are carried as their Postgres text form, which casts back exactly
+ * (timestamps keep their microseconds).
+ */
+
+import { z } from 'zod';
+import { sql, asc, desc, type SQL, type SQLWrapper } from 'drizzle-orm';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface Cursor {
+  sortBy: string;
+  sortOrder: SortDirection;
+  // Sort key of the last row, null when that row has none
+  value: string | null;
+  id: string;
+}
+
+const cursorSchema = z.object({
+  sortBy: z.string(),
+  sortOrder: z.enum(['asc', 'desc']),
+  value: z.string().nullable(),
+  id: z.string().uuid(),
+});
+
+export const encodeCursor = (cursor: Cursor): string =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+/**
+ * Cursor from its opaque form, or null when it is malformed
+ */
+export const decodeCursor = (encoded: string): Cursor | null => {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Sort key in the form stored in cursors; select it alongside the rows
+ */
+export const cursorValue = (sortKey: SQLWrapper) => sql<string | null>`${sortKey}::text`;
+
+/**
+ * ORDER BY for keyset pagination: the sort key, then the ID
+ */
+export const keysetOrderBy = (sortKey: SQLWrapper, id: SQLWrapper, sortOrder: SortDirection): SQL[] =>
+  sortOrder === 'desc' ? [desc(sortKey), desc(id)] : [asc(sortKey), asc(id)];
+
+/**
+ * Rows after the cursor in keysetOrderBy order. Postgres sorts NULLs last
+ * ascending and first descending, and the conditions follow suit.
+ */
+export const keysetCondition = (sortKey: SQLWrapper, id: SQLWrapper, cursor: Cursor): SQL => {
+  const { value } = cursor;
+
+  if (cursor.sortOrder === 'asc') {
+    return value === null
+      ? sql`(${sortKey} IS NULL AND ${id} > ${cursor.id})`
+      : sql`(${sortKey} > ${value} OR (${sortKey} = ${value} AND ${id} > ${cursor.id}) OR ${sortKey} IS NULL)`;
+  }
+
+  return value === null
+    ? sql`(${sortKey} IS NOT NULL OR ${id} < ${cursor.id})`
+    : sql`(${sortKey} < ${value} OR (${sortKey} = ${value} AND ${id} < ${cursor.id}))`;
+};
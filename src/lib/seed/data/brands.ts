@@ -0,0 +1,81 @@
+/**
+ * Brands Static Data
+ *
+ * Canonical brands, common alternative spellings and model names used to
+ * normalize asset and market data brand/model fields
+ */
+
+export interface BrandData {
+  name: string;
+  aliases: string[];
+  models: { alias: string; canonical: string }[];
+}
+
+export const BRANDS: BrandData[] = [
+  {
+    name: 'Apple',
+    aliases: ['apple inc', 'apple computer'],
+    models: [
+      { alias: 'iphone 13', canonical: 'iPhone 13' },
+      { alias: 'iphone 13 pro', canonical: 'iPhone 13 Pro' },
+      { alias: 'iphone 14', canonical: 'iPhone 14' },
+      { alias: 'iphone 14 pro', canonical: 'iPhone 14 Pro' },
+      { alias: 'iphone 14 pro max', canonical: 'iPhone 14 Pro Max' },
+      { alias: 'iphone 15', canonical: 'iPhone 15' },
+      { alias: 'iphone 15 pro', canonical: 'iPhone 15 Pro' },
+      { alias: 'ipad air', canonical: 'iPad Air' },
+      { alias: 'ipad pro', canonical: 'iPad Pro' },
+      { alias: 'macbook air', canonical: 'MacBook Air' },
+      { alias: 'macbook pro', canonical: 'MacBook Pro' },
+    ],
+  },
+  {
+    name: 'Samsung',
+    aliases: ['samsung electronics'],
+    models: [
+      { alias: 'galaxy s22', canonical: 'Galaxy S22' },
+      { alias: 'galaxy s23', canonical: 'Galaxy S23' },
+      { alias: 'galaxy s23 ultra', canonical: 'Galaxy S23 Ultra' },
+    ],
+  },
+  {
+    name: 'Sony',
+    aliases: [],
+    models: [
+      { alias: 'playstation 5', canonical: 'PlayStation 5' },
+      { alias: 'ps5', canonical: 'PlayStation 5' },
+    ],
+  },
+  {
+    name: 'Nintendo',
+    aliases: [],
+    models: [
+      { alias: 'switch oled', canonical: 'Switch OLED' },
+    ],
+  },
+  {
+    name: 'Volkswagen',
+    aliases: ['vw'],
+    models: [],
+  },
+  {
+    name: 'Mercedes-Benz',
+    aliases: ['mercedes', 'mercedes benz'],
+    models: [],
+  },
+  {
+    name: 'BMW',
+    aliases: [],
+    models: [],
+  },
+  {
+    name: 'Louis Vuitton',
+    aliases: ['lv'],
+    models: [],
+  },
+  {
+    name: 'Hewlett-Packard',
+    aliases: ['hp'],
+    models: [],
+  },
+];
@@ -4,9 +4,13 @@
  * Coordinates the seeding of all database tables in the correct order
  */
 
+import { readFile } from 'node:fs/promises';
 import { faker } from '@faker-js/faker';
 import { eq } from 'drizzle-orm';
-import { getDatabase, initDatabase, users, organizations, subscriptionPlans, platforms, assets, userOrganizations, assetCategories } from '../db.js';
+import { getDatabase, initDatabase, users, organizations, subscriptionPlans, platforms, assets, userOrganizations, assetCategories, brands, brandAliases, modelAliases, fxRates, cpiIndices } from '../db.js';
+import { normalizeKey, tokenizeModel } from '../normalization/normalize.js';
+import { importFxRates } from '../fx/import.js';
+import { importCpiIndices } from '../inflation/import.js';
 
 // Import seeders
 import { seedCategories } from './seeders/categories.seeder.js';
@@ -15,6 +19,7 @@ import { seedUsers } from './seeders/users.seeder.js';
 // Import static data
 import { SUBSCRIPTION_PLANS } from './data/subscription-plans.js';
 import { PLATFORMS } from './data/platforms.js';
+import { BRANDS } from './data/brands.js';
 
 // Import generators
 import { generateAssets } from './generators/assets.js';
@@ -112,6 +117,74 @@ async function seedPlatforms(): Promise<void> {
   }
 }
 
+/**
+ * Seed the brand normalization dictionary
+ */
+async function seedBrands(): Promise<void> {
+  console.log('🏷️  Seeding brand dictionary...');
+  
+  const db = getDatabase();
+
+  for (const brand of BRANDS) {
+    const existing = await db.select()
+      .from(brands)
+      .where(eq(brands.name, brand.name))
+      .limit(1);
+
+    if (existing.length > 0) {
+      console.log(`⏭️  Brand '${brand.name}' already exists`);
+      continue;
+    }
+
+    const [inserted] = await db.insert(brands)
+      .values({
+        name: brand.name,
+        slug: normalizeKey(brand.name).replace(/ /g, '-'),
+      })
+      .returning({ id: brands.id });
+
+    if (brand.aliases.length > 0) {
+      await db.insert(brandAliases)
+        .values(brand.aliases.map((alias) => ({ brandId: inserted.id, alias: normalizeKey(alias) })));
+    }
+
+    if (brand.models.length > 0) {
+      await db.insert(modelAliases)
+        .values(brand.models.map((model) => ({
+          brandId: inserted.id,
+          alias: tokenizeModel(model.alias).join(' '),
+          canonicalModel: model.canonical,
+        })));
+    }
+
+    console.log(`✅ Created brand: ${brand.name}`);
+  }
+}
+
+/**
+ * Seed reference exchange rates (quarterly sample of ECB rates)
+ */
+async function seedFxRates(): Promise<void> {
+  console.log('💱 Seeding FX rates...');
+
+  const file = await readFile(new URL('../fx/fixtures/reference-rates.csv', import.meta.url), 'utf8');
+  const report = await importFxRates(file, 'csv', { dryRun: false, base: 'EUR', source: 'ecb' });
+
+  console.log(`✅ Loaded ${report.rates} rates for ${report.currencies.join(', ')}`);
+}
+
+/**
+ * Seed consumer price indices (January readings for EUR, USD and GBP)
+ */
+async function seedCpiIndices(): Promise<void> {
+  console.log('📈 Seeding CPI indices...');
+
+  const file = await readFile(new URL('../inflation/fixtures/cpi-sample.csv', import.meta.url), 'utf8');
+  const report = await importCpiIndices(file, 'csv', { dryRun: false, source: 'sample' });
+
+  console.log(`✅ Loaded ${report.indices} indices for ${report.areas.join(', ')}`);
+}
+
 /**
  * Seed sample assets
  */
@@ -157,6 +230,9 @@ export async function seedDatabase(options: SeedOptions = {}): Promise<void> {
     const categoryMap = await seedCategories();
     await seedSubscriptionPlans();
     await seedPlatforms();
+    await seedBrands();
+    await seedFxRates();
+    await seedCpiIndices();
 
     // Step 2: Seed users and organizations
     console.log('\n👥 Step 2: Seeding users and organizations...');
@@ -171,6 +247,7 @@ export async function seedDatabase(options: SeedOptions = {}): Promise<void> {
     console.log(`   - Categories: ${Object.keys(categoryMap).length}`);
     console.log(`   - Subscription plans: ${SUBSCRIPTION_PLANS.length}`);
     console.log(`   - Platforms: ${PLATFORMS.length}`);
+    console.log(`   - Brands: ${BRANDS.length}`);
     console.log(`   - Users: ${userIds.length}`);
     console.log(`   - Organizations: ${organizationIds.length}`);
     console.log(`   - Assets: ${assetCount}`);
@@ -196,6 +273,9 @@ export async function resetDatabase(): Promise<void> {
     await db.delete(organizations);
     await db.delete(users);
     await db.delete(platforms);
+    await db.delete(brands);
+    await db.delete(fxRates);
+    await db.delete(cpiIndices);
     await db.delete(subscriptionPlans);
     await db.delete(assetCategories);
 
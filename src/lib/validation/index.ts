@@ -34,6 +34,8 @@ export const userRegistrationSchema = z.object({
   firstName: z.string().min(1, 'First name is required').max(100, 'First name too long'),
   lastName: z.string().min(1, 'Last name is required').max(100, 'Last name too long'),
   type: z.enum(['personal', 'professional']).default('personal'),
+  // Token from an organization invitation sent to this email
+  invitationToken: z.string().min(1).optional(),
 });
 
 export const userLoginSchema = z.object({
@@ -104,11 +106,26 @@ export const assetSearchSchema = z.object({
 // ORGANIZATION VALIDATION SCHEMAS
 // ============================================================================
 
+export const organizationSlugSchema = z.string()
+  .min(2, 'Slug too short')
+  .max(100, 'Slug too long')
+  .regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, 'Slug must contain only lowercase letters, numbers, and hyphens');
+
 export const organizationCreateSchema = z.object({
   name: z.string().min(1, 'Organization name is required').max(200, 'Name too long'),
+  // Generated from the name when omitted
+  slug: organizationSlugSchema.optional(),
   description: z.string().max(1000, 'Description too long').optional(),
+  logo: urlSchema.optional(),
   website: urlSchema.optional(),
   industry: z.string().max(100, 'Industry too long').optional(),
+  size: z.enum(['startup', 'small', 'medium', 'large', 'enterprise']).optional(),
+  settings: z.object({
+    currency: z.string().regex(/^[A-Za-z]{3}$/, 'Currency must be a 3-letter code').transform((code) => code.toUpperCase()).optional(),
+    timezone: z.string().max(100).optional(),
+    // Days deleted assets stay in the trash before being purged
+    trashRetentionDays: z.number().int().min(1).max(3650).optional(),
+  }).passthrough().optional(),
 });
 
 export const organizationUpdateSchema = organizationCreateSchema.partial();
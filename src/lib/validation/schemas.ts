@@ -15,11 +15,18 @@ import {
   passwordResets,
   organizations,
   userOrganizations,
+  organizationInvitations,
   assets,
   assetCategories,
   assetValuations,
+  valuationBacktests,
   marketDataSources,
   marketDataPoints,
+  brands,
+  brandAliases,
+  modelAliases,
+  fxRates,
+  cpiIndices,
   platforms,
   userPlatformConnections,
   assetListings,
@@ -89,6 +96,9 @@ export const insertUserOrganizationSchema = createInsertSchema(userOrganizations
 export const selectUserOrganizationSchema = createSelectSchema(userOrganizations);
 export const updateUserOrganizationSchema = createUpdateSchema(userOrganizations);
 
+export const insertOrganizationInvitationSchema = createInsertSchema(organizationInvitations);
+export const selectOrganizationInvitationSchema = createSelectSchema(organizationInvitations);
+
 // ============================================================================
 // ASSET SCHEMAS
 // ============================================================================
@@ -124,6 +134,9 @@ export const insertAssetValuationSchema = createInsertSchema(assetValuations, {
 export const selectAssetValuationSchema = createSelectSchema(assetValuations);
 export const updateAssetValuationSchema = createUpdateSchema(assetValuations);
 
+export const insertValuationBacktestSchema = createInsertSchema(valuationBacktests);
+export const selectValuationBacktestSchema = createSelectSchema(valuationBacktests);
+
 // ============================================================================
 // PLATFORM SCHEMAS
 // ============================================================================
@@ -215,6 +228,34 @@ export const insertMarketDataPointSchema = createInsertSchema(marketDataPoints);
 export const selectMarketDataPointSchema = createSelectSchema(marketDataPoints);
 export const updateMarketDataPointSchema = createUpdateSchema(marketDataPoints);
 
+// ============================================================================
+// BRAND NORMALIZATION SCHEMAS
+// ============================================================================
+
+export const insertBrandSchema = createInsertSchema(brands);
+export const selectBrandSchema = createSelectSchema(brands);
+export const insertBrandAliasSchema = createInsertSchema(brandAliases);
+export const selectBrandAliasSchema = createSelectSchema(brandAliases);
+export const insertModelAliasSchema = createInsertSchema(modelAliases);
+export const selectModelAliasSchema = createSelectSchema(modelAliases);
+
+// ============================================================================
+// FX RATES SCHEMAS
+// ============================================================================
+
+export const insertFxRateSchema = createInsertSchema(fxRates, {
+  baseCurrency: (schema) => schema.regex(/^[A-Z]{3}$/, 'Invalid currency code'),
+  quoteCurrency: (schema) => schema.regex(/^[A-Z]{3}$/, 'Invalid currency code'),
+});
+export const selectFxRateSchema = createSelectSchema(fxRates);
+
+// ============================================================================
+// CPI INDICES SCHEMAS
+// ============================================================================
+
+export const insertCpiIndexSchema = createInsertSchema(cpiIndices);
+export const selectCpiIndexSchema = createSelectSchema(cpiIndices);
+
 // ============================================================================
 // SAVED SEARCHES SCHEMAS
 // ============================================================================
@@ -233,6 +274,9 @@ export const phoneValidation = z.string().regex(/^\+?[1-9]\d{1,14}$/, 'Invalid p
 export const urlValidation = z.string().url('Invalid URL format');
 export const positiveNumberValidation = z.number().positive('Must be a positive number');
 export const nonEmptyStringValidation = z.string().min(1, 'Cannot be empty');
+export const currencyCodeValidation = z.string()
+  .regex(/^[A-Za-z]{3}$/, 'Invalid currency code')
+  .transform((code) => code.toUpperCase());
 
 // Password validation schema (for registration/password change)
 export const passwordValidationSchema = z.string()
@@ -0,0 +1,214 @@
+/**
+ * Valuation Backtesting
+ *
+ * Compares the last valuation made before each sale with the realized sale
+ * price and stores per-category accuracy metrics in valuation_backtests.
+ */
+
+import { randomUUID } from 'crypto';
+import { eq, and, desc, gte, lte, inArray, isNotNull, sql, type SQL } from 'drizzle-orm';
+import { getDatabase, assets, assetCategories, assetValuations, valuationBacktests } from '../db.js';
+import { yearsBetween, type ValuationScenario } from './depreciation.js';
+
+export type ValuationBacktest = typeof valuationBacktests.$inferSelect;
+
+export interface BacktestMetrics {
+  sampleSize: number;
+  mape: number | null;
+  bias: number | null;
+  bandHitRate: number | null;
+}
+
+export interface BacktestRun {
+  runId: string;
+  periodStart: Date | null;
+  periodEnd: Date | null;
+  overall: BacktestMetrics;
+  categories: ValuationBacktest[];
+}
+
+interface SaleObservation {
+  categoryId: string;
+  actual: number;
+  holdingYears: number;
+  values: Partial<Record<ValuationScenario, number>>;
+}
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Accuracy metrics for a set of sales
+ */
+export const computeBacktestMetrics = (observations: SaleObservation[]): BacktestMetrics => {
+  const withRealistic = observations.filter((observation) => observation.values.realistic !== undefined);
+  const withBand = observations.filter((observation) =>
+    observation.values.pessimistic !== undefined && observation.values.optimistic !== undefined
+  );
+
+  if (withRealistic.length === 0) {
+    return { sampleSize: observations.length, mape: null, bias: null, bandHitRate: null };
+  }
+
+  let absoluteErrorSum = 0;
+  let signedErrorSum = 0;
+  for (const observation of withRealistic) {
+    const error = (observation.values.realistic! - observation.actual) / observation.actual;
+    absoluteErrorSum += Math.abs(error);
+    signedErrorSum += error;
+  }
+
+  const hits = withBand.filter((observation) =>
+    observation.actual >= observation.values.pessimistic! && observation.actual <= observation.values.optimistic!
+  ).length;
+
+  return {
+    sampleSize: observations.length,
+    mape: round4(absoluteErrorSum / withRealistic.length),
+    bias: round4(signedErrorSum / withRealistic.length),
+    bandHitRate: withBand.length > 0 ? round4(hits / withBand.length) : null,
+  };
+};
+
+/**
+ * Run a backtest over assets sold between `from` and `to` (both optional)
+ * and persist the per-category results
+ */
+export const runValuationBacktest = async (from?: Date, to?: Date): Promise<BacktestRun> => {
+  const db = getDatabase();
+
+  const saleConditions: (SQL | undefined)[] = [
+    eq(assets.status, 'sold'),
+    isNotNull(assets.actualSalePrice),
+    isNotNull(assets.actualSaleDate),
+    sql`CAST(${assets.actualSalePrice} AS DECIMAL) > 0`,
+    from ? gte(assets.actualSaleDate, from) : undefined,
+    to ? lte(assets.actualSaleDate, to) : undefined,
+  ];
+
+  // Last valuation before the sale, per asset and scenario
+  const rows = await db.selectDistinctOn([assetValuations.assetId, assetValuations.scenario], {
+    assetId: assets.id,
+    categoryId: assets.categoryId,
+    purchaseDate: assets.purchaseDate,
+    actualSalePrice: assets.actualSalePrice,
+    actualSaleDate: assets.actualSaleDate,
+    scenario: assetValuations.scenario,
+    currentValue: assetValuations.currentValue,
+  })
+  .from(assetValuations)
+  .innerJoin(assets, eq(assetValuations.assetId, assets.id))
+  .where(and(
+    ...saleConditions,
+    sql`${assetValuations.valuationDate} <= ${assets.actualSaleDate}`
+  ))
+  .orderBy(assetValuations.assetId, assetValuations.scenario, desc(assetValuations.valuationDate));
+
+  const observationsByAsset = new Map<string, SaleObservation>();
+  for (const row of rows) {
+    const observation = observationsByAsset.get(row.assetId) ?? {
+      categoryId: row.categoryId,
+      actual: parseFloat(row.actualSalePrice!),
+      holdingYears: yearsBetween(row.purchaseDate, row.actualSaleDate!),
+      values: {},
+    };
+    observation.values[row.scenario] = parseFloat(row.currentValue);
+    observationsByAsset.set(row.assetId, observation);
+  }
+
+  const observations = [...observationsByAsset.values()];
+  const byCategory = new Map<string, SaleObservation[]>();
+  for (const observation of observations) {
+    const categoryObservations = byCategory.get(observation.categoryId);
+    if (categoryObservations) {
+      categoryObservations.push(observation);
+    } else {
+      byCategory.set(observation.categoryId, [observation]);
+    }
+  }
+
+  const profiles = byCategory.size > 0
+    ? await db.select({ id: assetCategories.id, depreciationProfile: assetCategories.depreciationProfile })
+        .from(assetCategories)
+        .where(inArray(assetCategories.id, [...byCategory.keys()]))
+    : [];
+  const profileByCategory = new Map(profiles.map((category) => [category.id, category.depreciationProfile]));
+
+  const runId = randomUUID();
+  const overall = computeBacktestMetrics(observations);
+  const toDecimal = (value: number | null) => value !== null ? value.toFixed(4) : null;
+
+  const resultRows = [
+    {
+      runId,
+      categoryId: null,
+      periodStart: from ?? null,
+      periodEnd: to ?? null,
+      sampleSize: overall.sampleSize,
+      mape: toDecimal(overall.mape),
+      bias: toDecimal(overall.bias),
+      bandHitRate: toDecimal(overall.bandHitRate),
+      details: {
+        medianHoldingYears: median(observations.map((observation) => observation.holdingYears)),
+      },
+    },
+    ...[...byCategory.entries()].map(([categoryId, categoryObservations]) => {
+      const metrics = computeBacktestMetrics(categoryObservations);
+      return {
+        runId,
+        categoryId,
+        periodStart: from ?? null,
+        periodEnd: to ?? null,
+        sampleSize: metrics.sampleSize,
+        mape: toDecimal(metrics.mape),
+        bias: toDecimal(metrics.bias),
+        bandHitRate: toDecimal(metrics.bandHitRate),
+        details: {
+          depreciationProfile: profileByCategory.get(categoryId) ?? null,
+          medianHoldingYears: median(categoryObservations.map((observation) => observation.holdingYears)),
+        },
+      };
+    }),
+  ];
+
+  const inserted = await db.insert(valuationBacktests).values(resultRows).returning();
+
+  return {
+    runId,
+    periodStart: from ?? null,
+    periodEnd: to ?? null,
+    overall,
+    categories: inserted.filter((row) => row.categoryId !== null),
+  };
+};
+
+/**
+ * Results of a backtest run, defaulting to the most recent one
+ */
+export const getBacktestResults = async (runId?: string): Promise<ValuationBacktest[]> => {
+  const db = getDatabase();
+
+  let targetRunId = runId;
+  if (!targetRunId) {
+    const latest = await db.select({ runId: valuationBacktests.runId })
+      .from(valuationBacktests)
+      .orderBy(desc(valuationBacktests.createdAt))
+      .limit(1);
+
+    if (!latest[0]) {
+      return [];
+    }
+    targetRunId = latest[0].runId;
+  }
+
+  return db.select()
+    .from(valuationBacktests)
+    .where(eq(valuationBacktests.runId, targetRunId))
+    .orderBy(sql`${valuationBacktests.categoryId} NULLS FIRST`);
+};
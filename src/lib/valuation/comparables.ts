@@ -0,0 +1,207 @@
+/**
+ * Comparable Sales Estimator
+ *
+ * Values an asset from similar items found in market_data_points, weighting
+ * actual sold prices over asking prices. Prices are converted into the
+ * asset's purchase currency at the rate of the day they were observed.
+ */
+
+import { eq, and, gte, lte, sql } from 'drizzle-orm';
+import { getDatabase, marketDataPoints, marketDataSources } from '../db.js';
+import {
+  CONDITION_MULTIPLIERS,
+  retainedShare,
+  scenarioRate,
+  seasonalFactor,
+  yearsBetween,
+  type DepreciationProfile,
+  type ValuationScenario,
+} from './depreciation.js';
+import type { ScenarioEstimate } from './engine.js';
+import { usableMarketData } from '../market-data/outliers.js';
+import { loadFxConverter } from '../fx/rates.js';
+
+// Below this many comparables the estimate falls back to the depreciation curve
+export const MIN_COMPARABLES = 5;
+// Only market data from the last 3 years is considered
+const LOOKBACK_YEARS = 3;
+// Maximum number of comparables pulled per valuation
+const MAX_COMPARABLES = 200;
+
+// Relative weight of an observed price depending on whether the item sold
+const SOLD_PRICE_WEIGHT = 1;
+const LISTING_PRICE_WEIGHT = 0.4;
+// Comparables in a different condition still count, but less
+const CONDITION_MISMATCH_WEIGHT = 0.6;
+// Comparables from a different model year still count, but less
+const YEAR_MISMATCH_WEIGHT = 0.8;
+
+// Which weighted percentile represents each scenario
+const SCENARIO_PERCENTILES: Record<ValuationScenario, number> = {
+  pessimistic: 0.25,
+  realistic: 0.5,
+  optimistic: 0.75,
+};
+
+export interface ComparableAsset {
+  categoryId: string;
+  brand: string | null;
+  model: string | null;
+  condition: string | null;
+  currency: string;
+  purchaseDate: Date;
+  plannedSaleDate: Date | null;
+  profile: DepreciationProfile;
+}
+
+interface WeightedPrice {
+  price: number;
+  weight: number;
+}
+
+/**
+ * Weighted percentile of a list of prices (p between 0 and 1)
+ */
+export const weightedPercentile = (values: WeightedPrice[], p: number): number => {
+  const sorted = [...values].sort((a, b) => a.price - b.price);
+  const totalWeight = sorted.reduce((sum, value) => sum + value.weight, 0);
+  const target = totalWeight * p;
+
+  let cumulative = 0;
+  for (const value of sorted) {
+    cumulative += value.weight;
+    if (cumulative >= target) {
+      return value.price;
+    }
+  }
+
+  return sorted[sorted.length - 1]?.price ?? 0;
+};
+
+/**
+ * Confidence (1-100) from the number of comparables and the share that actually sold
+ */
+const confidenceFromSample = (sampleSize: number, soldShare: number): number => {
+  const sizeScore = Math.min(60, Math.log2(sampleSize + 1) * 12);
+  return Math.max(1, Math.min(95, Math.round(20 + sizeScore + soldShare * 15)));
+};
+
+/**
+ * Estimate the three scenarios from comparable market data.
+ * Returns null when too few comparables are available.
+ */
+export const estimateFromComparables = async (
+  asset: ComparableAsset,
+  now: Date = new Date()
+): Promise<ScenarioEstimate[] | null> => {
+  // Without a brand there is nothing meaningful to compare against
+  if (!asset.brand) {
+    return null;
+  }
+
+  const db = getDatabase();
+  const since = new Date(now);
+  since.setFullYear(since.getFullYear() - LOOKBACK_YEARS);
+
+  // Brand/model equality lets Postgres use market_data_brand_model_idx
+  const whereConditions = [
+    eq(marketDataPoints.categoryId, asset.categoryId),
+    eq(marketDataPoints.brand, asset.brand),
+    gte(marketDataPoints.listingDate, since),
+    lte(marketDataPoints.listingDate, now),
+    usableMarketData,
+  ];
+  if (asset.model) {
+    whereConditions.push(eq(marketDataPoints.model, asset.model));
+  }
+
+  const rows = await db.select({
+    listingPrice: marketDataPoints.listingPrice,
+    soldPrice: marketDataPoints.soldPrice,
+    currency: marketDataPoints.currency,
+    listingDate: marketDataPoints.listingDate,
+    soldDate: marketDataPoints.soldDate,
+    condition: marketDataPoints.condition,
+    year: marketDataPoints.year,
+    sourceSlug: marketDataSources.slug,
+  })
+  .from(marketDataPoints)
+  .innerJoin(marketDataSources, eq(marketDataPoints.sourceId, marketDataSources.id))
+  .where(and(...whereConditions))
+  .orderBy(sql`${marketDataPoints.soldDate} DESC NULLS LAST`, sql`${marketDataPoints.listingDate} DESC`)
+  .limit(MAX_COMPARABLES);
+
+  // Comparables whose currency can't be converted are left out
+  const fx = await loadFxConverter([asset.currency, ...rows.map((row) => row.currency)]);
+  const comparables = rows.flatMap((row) => {
+    const sold = row.soldPrice !== null;
+    const observedAt = sold && row.soldDate ? row.soldDate : row.listingDate;
+    const price = fx.convert(parseFloat(sold ? row.soldPrice! : row.listingPrice), row.currency ?? asset.currency, asset.currency, observedAt);
+    return price === null ? [] : [{ ...row, sold, price }];
+  });
+
+  if (comparables.length < MIN_COMPARABLES) {
+    return null;
+  }
+
+  const assetYear = asset.purchaseDate.getFullYear();
+  const assetConditionMultiplier = CONDITION_MULTIPLIERS[asset.condition ?? 'good'] ?? CONDITION_MULTIPLIERS.good;
+  const sourceCounts: Record<string, number> = {};
+  let soldCount = 0;
+
+  const prices: WeightedPrice[] = comparables.map((comparable) => {
+    if (comparable.sold) soldCount++;
+    sourceCounts[comparable.sourceSlug] = (sourceCounts[comparable.sourceSlug] ?? 0) + 1;
+
+    let price = comparable.price;
+    let weight = comparable.sold ? SOLD_PRICE_WEIGHT : LISTING_PRICE_WEIGHT;
+
+    // Bring comparables in another condition to the asset's condition
+    if (comparable.condition && comparable.condition !== asset.condition) {
+      const comparableMultiplier = CONDITION_MULTIPLIERS[comparable.condition] ?? CONDITION_MULTIPLIERS.good;
+      price = price * (assetConditionMultiplier / comparableMultiplier);
+      weight *= CONDITION_MISMATCH_WEIGHT;
+    }
+
+    if (comparable.year !== null && Math.abs(comparable.year - assetYear) > 1) {
+      weight *= YEAR_MISMATCH_WEIGHT;
+    }
+
+    return { price, weight };
+  });
+
+  const sampleSize = comparables.length;
+  const confidenceLevel = confidenceFromSample(sampleSize, soldCount / sampleSize);
+  const dataSources = Object.entries(sourceCounts).map(([source, count]) => ({ source, count }));
+  const ageNow = yearsBetween(asset.purchaseDate, now);
+
+  return (Object.keys(SCENARIO_PERCENTILES) as ValuationScenario[]).map((scenario) => {
+    const currentValue = weightedPercentile(prices, SCENARIO_PERCENTILES[scenario]);
+    const rate = scenarioRate(asset.profile, scenario);
+
+    // Project forward along the category curve (and seasonality), starting from today's market price
+    let projectedValue: number | null = null;
+    if (asset.plannedSaleDate) {
+      const ageAtSale = yearsBetween(asset.purchaseDate, asset.plannedSaleDate);
+      const shareNow = retainedShare(asset.profile.curve_type, rate, ageNow);
+      const shareAtSale = retainedShare(asset.profile.curve_type, rate, ageAtSale);
+      projectedValue = shareNow > 0 ? currentValue * (shareAtSale / shareNow) : currentValue;
+      // Today's market prices already carry this month's seasonal effect
+      projectedValue *= seasonalFactor(asset.profile, asset.plannedSaleDate) / seasonalFactor(asset.profile, now);
+    }
+
+    return {
+      scenario,
+      currentValue,
+      projectedValue,
+      depreciationRate: rate,
+      sampleSize,
+      confidenceLevel,
+      dataSources,
+      methodology:
+        `Weighted ${SCENARIO_PERCENTILES[scenario] * 100}th percentile of ${sampleSize} comparable ` +
+        `${asset.brand}${asset.model ? ` ${asset.model}` : ''} listings (${soldCount} sold), ` +
+        `sold prices weighted over asking prices and adjusted for condition.`,
+    };
+  });
+};
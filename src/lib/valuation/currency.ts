@@ -0,0 +1,113 @@
+/**
+ * Valuation Reporting Currency
+ *
+ * Valuations are stored in the asset's purchase currency. These helpers add
+ * the same figures converted into the reporting currency of the user or
+ * organization, at the rate of the day each value refers to.
+ */
+
+import type { FxConverter } from '../fx/rates.js';
+import type { AssetValuation } from './engine.js';
+import type { HistoryBucket, HistoryPoint } from './history.js';
+import type { SaleRecommendation } from './sale-window.js';
+import { VALUATION_SCENARIOS, type ValuationScenario } from './depreciation.js';
+
+export interface ReportedValues {
+  currency: string;
+  // Null when no exchange rate connects the two currencies
+  rate: number | null;
+  currentValue: number | null;
+  projectedValue: number | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const convertDecimal = (value: string | null, rate: number | null): number | null =>
+  value !== null && rate !== null ? round2(parseFloat(value) * rate) : null;
+
+/**
+ * Latest valuations with their values in the reporting currency, converted
+ * at the rate of the valuation date
+ */
+export const reportValuations = (
+  valuations: AssetValuation[],
+  fx: FxConverter,
+  assetCurrency: string,
+  reportingCurrency: string
+) =>
+  valuations.map((valuation) => {
+    const rate = fx.rate(assetCurrency, reportingCurrency, valuation.valuationDate);
+
+    const reporting: ReportedValues = {
+      currency: reportingCurrency,
+      rate,
+      currentValue: convertDecimal(valuation.currentValue, rate),
+      projectedValue: convertDecimal(valuation.projectedValue, rate),
+    };
+
+    return { ...valuation, currency: assetCurrency, reporting };
+  });
+
+/**
+ * History buckets with each point also converted at its own valuation date
+ */
+export const reportHistoryBuckets = (
+  buckets: HistoryBucket[],
+  fx: FxConverter,
+  assetCurrency: string,
+  reportingCurrency: string
+) =>
+  buckets.map((bucket) => {
+    const scenarios = {} as Record<ValuationScenario, (HistoryPoint & { reporting: ReportedValues }) | null>;
+
+    for (const scenario of VALUATION_SCENARIOS) {
+      const point = bucket.scenarios[scenario];
+      if (!point) {
+        scenarios[scenario] = null;
+        continue;
+      }
+
+      const rate = fx.rate(assetCurrency, reportingCurrency, point.valuationDate);
+      scenarios[scenario] = {
+        ...point,
+        reporting: {
+          currency: reportingCurrency,
+          rate,
+          currentValue: convertDecimal(point.currentValue, rate),
+          projectedValue: convertDecimal(point.projectedValue, rate),
+        },
+      };
+    }
+
+    return { ...bucket, scenarios };
+  });
+
+/**
+ * Expected proceeds of a sale recommendation in the reporting currency, at
+ * the latest known rate (future rates are unknown)
+ */
+export const reportSaleRecommendation = (
+  recommendation: SaleRecommendation,
+  fx: FxConverter,
+  reportingCurrency: string,
+  now: Date = new Date()
+) => {
+  const rate = fx.rate(recommendation.currency, reportingCurrency, now);
+  const expectedProceeds = {} as Record<ValuationScenario, number | null>;
+  for (const scenario of VALUATION_SCENARIOS) {
+    const value = recommendation.recommendation.expectedProceeds[scenario];
+    expectedProceeds[scenario] = rate !== null ? round2(value * rate) : null;
+  }
+
+  return {
+    ...recommendation,
+    reporting: {
+      currency: reportingCurrency,
+      rate,
+      targetSalePrice: recommendation.targetSalePrice !== null && rate !== null
+        ? round2(recommendation.targetSalePrice * rate)
+        : null,
+      expectedProceeds,
+    },
+  };
+};
@@ -0,0 +1,159 @@
+/**
+ * Depreciation Curves
+ *
+ * Pure calculations turning a category depreciation profile into asset values
+ * for each of the three valuation scenarios.
+ */
+
+export type ValuationScenario = 'pessimistic' | 'realistic' | 'optimistic';
+
+export const VALUATION_SCENARIOS: ValuationScenario[] = ['pessimistic', 'realistic', 'optimistic'];
+
+// Shape stored in asset_categories.depreciation_profile
+export interface DepreciationProfile {
+  curve_type: string;
+  annual_rate: number;
+  factors?: string[];
+  // Price multiplier per calendar month (January first), averaging 1
+  seasonality?: number[];
+}
+
+// Used when a category has no profile configured
+export const DEFAULT_DEPRECIATION_PROFILE: DepreciationProfile = {
+  curve_type: 'exponential',
+  annual_rate: 0.2,
+  factors: [],
+};
+
+/**
+ * How each scenario bends the category's annual rate.
+ * Pessimistic depreciates faster (urgent sale, saturated market),
+ * optimistic slower (patient sale, collector demand).
+ */
+export const SCENARIO_RATE_MULTIPLIERS: Record<ValuationScenario, number> = {
+  pessimistic: 1.35,
+  realistic: 1,
+  optimistic: 0.7,
+};
+
+// Share of the curve value an item keeps depending on its condition
+export const CONDITION_MULTIPLIERS: Record<string, number> = {
+  new: 1,
+  excellent: 0.95,
+  good: 0.85,
+  fair: 0.7,
+  poor: 0.5,
+};
+
+// Items never fall below this share of their purchase price
+const RESIDUAL_VALUE_FLOOR = 0.05;
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/**
+ * Read a depreciation profile from the untyped jsonb column, falling back
+ * to the default profile when it is missing or malformed.
+ */
+export const parseDepreciationProfile = (raw: unknown): DepreciationProfile => {
+  if (!raw || typeof raw !== 'object') {
+    return DEFAULT_DEPRECIATION_PROFILE;
+  }
+
+  const profile = raw as Partial<DepreciationProfile>;
+  if (typeof profile.curve_type !== 'string' || typeof profile.annual_rate !== 'number') {
+    return DEFAULT_DEPRECIATION_PROFILE;
+  }
+
+  return {
+    ...profile,
+    curve_type: profile.curve_type,
+    annual_rate: profile.annual_rate,
+    factors: Array.isArray(profile.factors) ? profile.factors : [],
+    seasonality: isSeasonality(profile.seasonality) ? profile.seasonality : undefined,
+  };
+};
+
+/**
+ * Twelve positive monthly coefficients
+ */
+export const isSeasonality = (value: unknown): value is number[] => {
+  return Array.isArray(value)
+    && value.length === 12
+    && value.every((coefficient) => typeof coefficient === 'number' && Number.isFinite(coefficient) && coefficient > 0);
+};
+
+/**
+ * Seasonal price multiplier for the month of a date (1 without seasonality)
+ */
+export const seasonalFactor = (profile: DepreciationProfile, at: Date): number => {
+  return profile.seasonality?.[at.getUTCMonth()] ?? 1;
+};
+
+/**
+ * Age in (fractional) years between two dates, never negative
+ */
+export const yearsBetween = (from: Date, to: Date): number => {
+  return Math.max(0, (to.getTime() - from.getTime()) / MS_PER_YEAR);
+};
+
+/**
+ * Annual depreciation rate applied for a scenario
+ */
+export const scenarioRate = (profile: DepreciationProfile, scenario: ValuationScenario): number => {
+  const rate = profile.annual_rate;
+
+  // Appreciating categories: the optimistic scenario gains more, the pessimistic less
+  if (rate < 0) {
+    return rate / SCENARIO_RATE_MULTIPLIERS[scenario];
+  }
+
+  return Math.min(0.95, rate * SCENARIO_RATE_MULTIPLIERS[scenario]);
+};
+
+/**
+ * Share of the original price retained after `years` for a curve type and rate
+ */
+export const retainedShare = (curveType: string, rate: number, years: number): number => {
+  let share: number;
+
+  switch (curveType) {
+    case 'linear':
+      share = 1 - rate * years;
+      break;
+    case 'steep_initial':
+    case 'standard_automotive': {
+      // Bigger hit during the first year, then regular exponential decay
+      const firstYear = Math.min(years, 1);
+      const afterFirstYear = Math.max(0, years - 1);
+      share = (1 - Math.min(0.95, rate * 1.5) * firstYear) * Math.pow(1 - rate, afterFirstYear);
+      break;
+    }
+    case 'slow':
+    case 'moderate':
+    case 'exponential':
+    case 'appreciation_potential':
+    default:
+      share = Math.pow(1 - rate, years);
+  }
+
+  return rate < 0 ? share : Math.max(RESIDUAL_VALUE_FLOOR, share);
+};
+
+/**
+ * Estimated value of an item for a scenario at a given date
+ */
+export const valueAt = (params: {
+  purchasePrice: number;
+  purchaseDate: Date;
+  condition?: string | null;
+  profile: DepreciationProfile;
+  scenario: ValuationScenario;
+  at: Date;
+}): number => {
+  const { purchasePrice, purchaseDate, condition, profile, scenario, at } = params;
+  const rate = scenarioRate(profile, scenario);
+  const years = yearsBetween(purchaseDate, at);
+  const conditionMultiplier = CONDITION_MULTIPLIERS[condition ?? 'good'] ?? CONDITION_MULTIPLIERS.good;
+
+  return purchasePrice * retainedShare(profile.curve_type, rate, years) * conditionMultiplier;
+};
@@ -0,0 +1,186 @@
+/**
+ * Valuation Engine
+ *
+ * Computes the three valuation scenarios for an asset and stores them in
+ * asset_valuations so estimates can be tracked over time. Values are in the
+ * asset's purchase currency.
+ */
+
+import { eq, and, desc, isNull, isNotNull } from 'drizzle-orm';
+import { getDatabase, assets, assetCategories, assetValuations } from '../db.js';
+import {
+  VALUATION_SCENARIOS,
+  parseDepreciationProfile,
+  scenarioRate,
+  seasonalFactor,
+  valueAt,
+  type DepreciationProfile,
+  type ValuationScenario,
+} from './depreciation.js';
+import { estimateFromComparables } from './comparables.js';
+import { withSeasonality, monthName } from './seasonality.js';
+import { getMarketVelocityStats, liquidityConfidenceAdjustment, DEFAULT_VELOCITY_MONTHS } from '../market-data/velocity.js';
+import { normalizeCurrency } from '../fx/rates.js';
+
+// How long a computed valuation is considered current
+export const VALUATION_VALIDITY_DAYS = 30;
+// When the refresh should be scheduled
+export const VALUATION_REFRESH_DAYS = 7;
+// Curve-only estimates carry little market evidence
+const CURVE_CONFIDENCE_LEVEL = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type AssetValuation = typeof assetValuations.$inferSelect;
+
+// Minimal asset shape the engine needs
+export interface ValuationInput {
+  purchasePrice: number;
+  purchaseDate: Date;
+  condition?: string | null;
+  plannedSaleDate?: Date | null;
+  profile: DepreciationProfile;
+}
+
+export interface ScenarioEstimate {
+  scenario: ValuationScenario;
+  currentValue: number;
+  projectedValue: number | null;
+  depreciationRate: number;
+  methodology: string;
+  sampleSize?: number;
+  confidenceLevel?: number;
+  dataSources?: unknown;
+}
+
+/**
+ * Compute the three scenario estimates for an asset without touching the database
+ */
+export const estimateFromDepreciationCurve = (
+  input: ValuationInput,
+  now: Date = new Date()
+): ScenarioEstimate[] => {
+  return VALUATION_SCENARIOS.map((scenario) => {
+    const currentValue = valueAt({ ...input, scenario, at: now });
+    // The curve gives an average over the year; the sale month shifts it seasonally
+    const projectedValue = input.plannedSaleDate
+      ? valueAt({ ...input, scenario, at: input.plannedSaleDate }) * seasonalFactor(input.profile, input.plannedSaleDate)
+      : null;
+    const rate = scenarioRate(input.profile, scenario);
+
+    return {
+      scenario,
+      currentValue,
+      projectedValue,
+      depreciationRate: rate,
+      confidenceLevel: CURVE_CONFIDENCE_LEVEL,
+      dataSources: [{ source: 'depreciation_curve', curveType: input.profile.curve_type }],
+      methodology:
+        `Depreciation curve '${input.profile.curve_type}' at ${(rate * 100).toFixed(1)}%/year ` +
+        `(${scenario} scenario) applied to the purchase price, adjusted for '${input.condition ?? 'good'}' condition` +
+        (input.profile.seasonality && input.plannedSaleDate
+          ? `; projection adjusted for ${monthName(input.plannedSaleDate)} seasonality.`
+          : '.'),
+    };
+  });
+};
+
+/**
+ * Recompute and store the three scenarios for an asset.
+ * Comparable market sales are preferred; the category depreciation curve is
+ * used when too few comparables exist. Confidence is then adjusted for how
+ * liquid the asset's market is. Superseded valuations are
+ * unscheduled so only the newest set is picked up by the refresh worker.
+ * Returns the inserted rows, or null if the asset does not exist.
+ */
+export const recomputeAssetValuations = async (assetId: string): Promise<AssetValuation[] | null> => {
+  const db = getDatabase();
+
+  const assetResult = await db.select({
+    id: assets.id,
+    categoryId: assets.categoryId,
+    brand: assets.brand,
+    model: assets.model,
+    purchasePrice: assets.purchasePrice,
+    purchaseDate: assets.purchaseDate,
+    purchaseCurrency: assets.purchaseCurrency,
+    condition: assets.condition,
+    plannedSaleDate: assets.plannedSaleDate,
+    depreciationProfile: assetCategories.depreciationProfile,
+  })
+  .from(assets)
+  .leftJoin(assetCategories, eq(assets.categoryId, assetCategories.id))
+  .where(and(eq(assets.id, assetId), isNull(assets.deletedAt)))
+  .limit(1);
+
+  const asset = assetResult[0];
+  if (!asset) {
+    return null;
+  }
+
+  const now = new Date();
+  const profile = await withSeasonality(asset.categoryId, parseDepreciationProfile(asset.depreciationProfile));
+
+  const comparableEstimates = await estimateFromComparables({
+    categoryId: asset.categoryId,
+    brand: asset.brand,
+    model: asset.model,
+    condition: asset.condition,
+    currency: normalizeCurrency(asset.purchaseCurrency),
+    purchaseDate: asset.purchaseDate,
+    plannedSaleDate: asset.plannedSaleDate,
+    profile,
+  }, now);
+
+  const estimates = comparableEstimates ?? estimateFromDepreciationCurve({
+    purchasePrice: parseFloat(asset.purchasePrice),
+    purchaseDate: asset.purchaseDate,
+    condition: asset.condition,
+    plannedSaleDate: asset.plannedSaleDate,
+    profile,
+  }, now);
+
+  const velocity = await getMarketVelocityStats({
+    categoryId: asset.categoryId,
+    brand: asset.brand,
+    model: asset.model,
+  }, DEFAULT_VELOCITY_MONTHS, now);
+  const liquidityAdjustment = liquidityConfidenceAdjustment(velocity);
+
+  return db.transaction(async (tx) => {
+    await tx.update(assetValuations)
+      .set({ nextUpdateAt: null })
+      .where(and(eq(assetValuations.assetId, assetId), isNotNull(assetValuations.nextUpdateAt)));
+
+    return tx.insert(assetValuations)
+      .values(estimates.map((estimate) => ({
+        assetId,
+        scenario: estimate.scenario,
+        currentValue: estimate.currentValue.toFixed(2),
+        projectedValue: estimate.projectedValue !== null ? estimate.projectedValue.toFixed(2) : null,
+        depreciationRate: estimate.depreciationRate.toFixed(4),
+        methodology: estimate.methodology,
+        sampleSize: estimate.sampleSize ?? null,
+        confidenceLevel: estimate.confidenceLevel !== undefined
+          ? Math.max(1, Math.min(100, estimate.confidenceLevel + liquidityAdjustment))
+          : null,
+        dataSources: estimate.dataSources ?? null,
+        valuationDate: now,
+        validUntil: new Date(now.getTime() + VALUATION_VALIDITY_DAYS * DAY_MS),
+        nextUpdateAt: new Date(now.getTime() + VALUATION_REFRESH_DAYS * DAY_MS),
+      })))
+      .returning();
+  });
+};
+
+/**
+ * Latest stored valuation for each scenario of an asset
+ */
+export const getLatestValuations = async (assetId: string): Promise<AssetValuation[]> => {
+  const db = getDatabase();
+
+  return db.selectDistinctOn([assetValuations.scenario])
+    .from(assetValuations)
+    .where(eq(assetValuations.assetId, assetId))
+    .orderBy(assetValuations.scenario, desc(assetValuations.valuationDate));
+};
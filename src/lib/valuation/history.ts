@@ -0,0 +1,149 @@
+/**
+ * Valuation History
+ *
+ * Buckets stored valuations into weekly or monthly series so the three
+ * scenarios can be charted over time.
+ */
+
+import { eq, and, gte, lt, lte, desc } from 'drizzle-orm';
+import { getDatabase, assetValuations } from '../db.js';
+import { VALUATION_SCENARIOS, type ValuationScenario } from './depreciation.js';
+
+export type HistoryInterval = 'week' | 'month';
+
+export interface HistoryPoint {
+  currentValue: string;
+  projectedValue: string | null;
+  valuationDate: Date;
+  carriedForward: boolean;
+}
+
+export interface HistoryBucket {
+  bucketStart: Date;
+  scenarios: Record<ValuationScenario, HistoryPoint | null>;
+}
+
+type ValuationPoint = Pick<typeof assetValuations.$inferSelect,
+  'scenario' | 'currentValue' | 'projectedValue' | 'valuationDate'>;
+
+/**
+ * Start of the UTC week (Monday) or month containing a date
+ */
+export const bucketStart = (date: Date, interval: HistoryInterval): Date => {
+  if (interval === 'month') {
+    return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+  }
+
+  const dayOffset = (date.getUTCDay() + 6) % 7; // Monday = 0
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() - dayOffset));
+};
+
+/**
+ * Start of the bucket following the given bucket start
+ */
+export const nextBucketStart = (start: Date, interval: HistoryInterval): Date => {
+  if (interval === 'month') {
+    return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 1));
+  }
+
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate() + 7));
+};
+
+/**
+ * Number of buckets between two dates (inclusive)
+ */
+export const countBuckets = (from: Date, to: Date, interval: HistoryInterval): number => {
+  let count = 0;
+  for (let start = bucketStart(from, interval); start <= to; start = nextBucketStart(start, interval)) {
+    count++;
+  }
+  return count;
+};
+
+const emptyScenarios = (): Record<ValuationScenario, HistoryPoint | null> => ({
+  pessimistic: null,
+  realistic: null,
+  optimistic: null,
+});
+
+/**
+ * Latest value per scenario per bucket between `from` and `to`.
+ * Buckets without a valuation carry forward the previous value.
+ */
+export const getValuationHistory = async (
+  assetId: string,
+  from: Date,
+  to: Date,
+  interval: HistoryInterval
+): Promise<HistoryBucket[]> => {
+  const db = getDatabase();
+  const rangeStart = bucketStart(from, interval);
+
+  const columns = {
+    scenario: assetValuations.scenario,
+    currentValue: assetValuations.currentValue,
+    projectedValue: assetValuations.projectedValue,
+    valuationDate: assetValuations.valuationDate,
+  };
+
+  const [seedRows, rows] = await Promise.all([
+    // Last known value of each scenario before the range, used to fill leading gaps
+    db.selectDistinctOn([assetValuations.scenario], columns)
+      .from(assetValuations)
+      .where(and(eq(assetValuations.assetId, assetId), lt(assetValuations.valuationDate, rangeStart)))
+      .orderBy(assetValuations.scenario, desc(assetValuations.valuationDate)),
+
+    db.select(columns)
+      .from(assetValuations)
+      .where(and(
+        eq(assetValuations.assetId, assetId),
+        gte(assetValuations.valuationDate, rangeStart),
+        lte(assetValuations.valuationDate, to)
+      ))
+      .orderBy(assetValuations.valuationDate),
+  ]);
+
+  // Rows are ordered by date, so the last row seen for a bucket/scenario wins
+  const latestByBucket = new Map<number, Partial<Record<ValuationScenario, ValuationPoint>>>();
+  for (const row of rows) {
+    const key = bucketStart(row.valuationDate, interval).getTime();
+    const bucket = latestByBucket.get(key) ?? {};
+    bucket[row.scenario] = row;
+    latestByBucket.set(key, bucket);
+  }
+
+  const previous = emptyScenarios();
+  for (const row of seedRows) {
+    previous[row.scenario] = {
+      currentValue: row.currentValue,
+      projectedValue: row.projectedValue,
+      valuationDate: row.valuationDate,
+      carriedForward: true,
+    };
+  }
+
+  const buckets: HistoryBucket[] = [];
+  for (let start = rangeStart; start <= to; start = nextBucketStart(start, interval)) {
+    const found = latestByBucket.get(start.getTime()) ?? {};
+    const scenarios = emptyScenarios();
+
+    for (const scenario of VALUATION_SCENARIOS) {
+      const row = found[scenario];
+      if (row) {
+        scenarios[scenario] = {
+          currentValue: row.currentValue,
+          projectedValue: row.projectedValue,
+          valuationDate: row.valuationDate,
+          carriedForward: false,
+        };
+      } else if (previous[scenario]) {
+        scenarios[scenario] = { ...previous[scenario]!, carriedForward: true };
+      }
+      previous[scenario] = scenarios[scenario];
+    }
+
+    buckets.push({ bucketStart: start, scenarios });
+  }
+
+  return buckets;
+};
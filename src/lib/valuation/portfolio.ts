@@ -0,0 +1,214 @@
+/**
+ * Portfolio Valuation
+ *
+ * Aggregates the latest stored valuations of a set of assets into portfolio
+ * totals per scenario, compared against what the assets cost (nominally and
+ * in today's money), in a single reporting currency.
+ */
+
+import { eq, and, desc, isNull, type SQL } from 'drizzle-orm';
+import { getDatabase, assets, assetValuations } from '../db.js';
+import { VALUATION_SCENARIOS, type ValuationScenario } from './depreciation.js';
+import { loadFxConverter, normalizeCurrency, DEFAULT_CURRENCY } from '../fx/rates.js';
+import { loadCpiTable } from '../inflation/cpi.js';
+
+export interface PortfolioValuation {
+  currency: string;
+  assetCount: number;
+  valuedAssetCount: number;
+  purchaseCost: number;
+  valuedPurchaseCost: number;
+  estimatedValue: Record<ValuationScenario, number>;
+  unrealizedLoss: {
+    amount: number;
+    percentage: number | null;
+  };
+  valuationCoverage: {
+    missing: number;
+    stale: number;
+    staleOrMissingShare: number;
+  };
+  // Purchase costs restated in today's money with the CPI of each asset's currency
+  inflationAdjusted: {
+    purchaseCost: number;
+    valuedPurchaseCost: number;
+    unrealizedLoss: {
+      amount: number;
+      percentage: number | null;
+    };
+    // Assets counted at their nominal cost because their currency has no CPI series
+    unadjustedCount: number;
+  };
+  // Assets left out of every total because no exchange rate reaches the reporting currency
+  unconverted: {
+    count: number;
+    currencies: string[];
+  };
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Portfolio totals for the active, non-deleted assets matching `scope`, in
+ * `currency`. Purchase prices are converted at the rate of the purchase date
+ * and estimates at the rate of their valuation date, as on the asset's
+ * valuation endpoints. Assets without any valuation are excluded
+ * from the estimated totals and the unrealized loss, and counted as missing.
+ */
+export const getPortfolioValuation = async (
+  scope: SQL | undefined,
+  currency: string = DEFAULT_CURRENCY,
+  now: Date = new Date()
+): Promise<PortfolioValuation> => {
+  const db = getDatabase();
+  const assetConditions = and(scope, isNull(assets.deletedAt), eq(assets.status, 'active'));
+
+  // Latest valuation per asset and scenario, restricted to the scoped assets
+  const latest = db.selectDistinctOn([assetValuations.assetId, assetValuations.scenario], {
+    assetId: assetValuations.assetId,
+    scenario: assetValuations.scenario,
+    currentValue: assetValuations.currentValue,
+    valuationDate: assetValuations.valuationDate,
+    validUntil: assetValuations.validUntil,
+  })
+  .from(assetValuations)
+  .innerJoin(assets, eq(assetValuations.assetId, assets.id))
+  .where(assetConditions)
+  .orderBy(assetValuations.assetId, assetValuations.scenario, desc(assetValuations.valuationDate))
+  .as('latest_valuations');
+
+  const rows = await db.select({
+    assetId: assets.id,
+    purchasePrice: assets.purchasePrice,
+    purchaseDate: assets.purchaseDate,
+    purchaseCurrency: assets.purchaseCurrency,
+    scenario: latest.scenario,
+    currentValue: latest.currentValue,
+    valuationDate: latest.valuationDate,
+    validUntil: latest.validUntil,
+  })
+  .from(assets)
+  .leftJoin(latest, eq(latest.assetId, assets.id))
+  .where(assetConditions);
+
+  // Normalized as the lookups below are, so a missing currency loads the default series
+  const assetCurrencies = rows.map((row) => normalizeCurrency(row.purchaseCurrency));
+  const [fx, cpi] = await Promise.all([
+    loadFxConverter([currency, ...assetCurrencies]),
+    loadCpiTable(assetCurrencies),
+  ]);
+
+  const byAsset = new Map<string, {
+    purchasePrice: number;
+    // Null when the currency has no CPI series
+    purchasePriceToday: number | null;
+    values: Partial<Record<ValuationScenario, number>>;
+    stale: boolean;
+  }>();
+  const unconvertedAssets = new Set<string>();
+  const unconvertedCurrencies = new Set<string>();
+
+  for (const row of rows) {
+    const assetCurrency = normalizeCurrency(row.purchaseCurrency);
+    const purchaseRate = fx.rate(assetCurrency, currency, row.purchaseDate);
+    const currentRate = fx.rate(assetCurrency, currency, now);
+
+    if (purchaseRate === null || currentRate === null) {
+      unconvertedAssets.add(row.assetId);
+      unconvertedCurrencies.add(assetCurrency);
+      continue;
+    }
+
+    const price = parseFloat(row.purchasePrice);
+    const priceToday = cpi.adjust(price, assetCurrency, row.purchaseDate, now);
+    const entry = byAsset.get(row.assetId) ?? {
+      purchasePrice: price * purchaseRate,
+      purchasePriceToday: priceToday !== null ? priceToday * currentRate : null,
+      values: {},
+      stale: false,
+    };
+
+    if (row.scenario && row.currentValue !== null) {
+      // Today's rate only when no rate was published yet on the valuation date
+      const valuationRate = (row.valuationDate && fx.rate(assetCurrency, currency, row.valuationDate)) || currentRate;
+      entry.values[row.scenario] = parseFloat(row.currentValue) * valuationRate;
+      if (!row.validUntil || row.validUntil < now) {
+        entry.stale = true;
+      }
+    }
+
+    byAsset.set(row.assetId, entry);
+  }
+
+  const estimatedValue: Record<ValuationScenario, number> = { pessimistic: 0, realistic: 0, optimistic: 0 };
+  let purchaseCost = 0;
+  let valuedPurchaseCost = 0;
+  let valuedAssetCount = 0;
+  let missing = 0;
+  let stale = 0;
+  let purchaseCostToday = 0;
+  let valuedPurchaseCostToday = 0;
+  let unadjustedCount = 0;
+
+  for (const entry of byAsset.values()) {
+    const costToday = entry.purchasePriceToday ?? entry.purchasePrice;
+    if (entry.purchasePriceToday === null) unadjustedCount++;
+
+    purchaseCost += entry.purchasePrice;
+    purchaseCostToday += costToday;
+
+    if (entry.values.realistic === undefined) {
+      missing++;
+      continue;
+    }
+
+    valuedAssetCount++;
+    valuedPurchaseCost += entry.purchasePrice;
+    valuedPurchaseCostToday += costToday;
+    if (entry.stale) stale++;
+
+    for (const scenario of VALUATION_SCENARIOS) {
+      // A missing scenario falls back to the realistic estimate
+      estimatedValue[scenario] += entry.values[scenario] ?? entry.values.realistic;
+    }
+  }
+
+  const assetCount = byAsset.size;
+  const lossAmount = valuedPurchaseCost - estimatedValue.realistic;
+  const realLossAmount = valuedPurchaseCostToday - estimatedValue.realistic;
+
+  return {
+    currency,
+    assetCount,
+    valuedAssetCount,
+    purchaseCost: round2(purchaseCost),
+    valuedPurchaseCost: round2(valuedPurchaseCost),
+    estimatedValue: {
+      pessimistic: round2(estimatedValue.pessimistic),
+      realistic: round2(estimatedValue.realistic),
+      optimistic: round2(estimatedValue.optimistic),
+    },
+    unrealizedLoss: {
+      amount: round2(lossAmount),
+      percentage: valuedPurchaseCost > 0 ? round2((lossAmount / valuedPurchaseCost) * 100) : null,
+    },
+    valuationCoverage: {
+      missing,
+      stale,
+      staleOrMissingShare: assetCount > 0 ? round2((missing + stale) / assetCount) : 0,
+    },
+    inflationAdjusted: {
+      purchaseCost: round2(purchaseCostToday),
+      valuedPurchaseCost: round2(valuedPurchaseCostToday),
+      unrealizedLoss: {
+        amount: round2(realLossAmount),
+        percentage: valuedPurchaseCostToday > 0 ? round2((realLossAmount / valuedPurchaseCostToday) * 100) : null,
+      },
+      unadjustedCount,
+    },
+    unconverted: {
+      count: unconvertedAssets.size,
+      currencies: [...unconvertedCurrencies].sort(),
+    },
+  };
+};
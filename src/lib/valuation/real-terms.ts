@@ -0,0 +1,47 @@
+/**
+ * Real-Terms Depreciation
+ *
+ * Splits the value lost since purchase into nominal terms (against the price
+ * paid) and real terms (against the price paid restated in money of the
+ * valuation date), so long-held assets aren't judged on stale prices.
+ */
+
+import type { CpiTable } from '../inflation/cpi.js';
+
+export interface DepreciationFigures {
+  amount: number;
+  // Share of the (nominal or inflation-adjusted) purchase price lost, in %
+  percentage: number | null;
+}
+
+export interface ValuationDepreciation {
+  nominal: DepreciationFigures;
+  // Null when the asset's currency has no CPI series
+  real: (DepreciationFigures & { purchaseCostAdjusted: number }) | null;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const figures = (cost: number, value: number): DepreciationFigures => ({
+  amount: round2(cost - value),
+  percentage: cost > 0 ? round2(((cost - value) / cost) * 100) : null,
+});
+
+/**
+ * Nominal and real depreciation of a valuation against the purchase
+ */
+export const describeDepreciation = (
+  valuation: { currentValue: string; valuationDate: Date },
+  purchase: { price: number; date: Date; currency: string },
+  cpi: CpiTable
+): ValuationDepreciation => {
+  const value = parseFloat(valuation.currentValue);
+  const adjustedCost = cpi.adjust(purchase.price, purchase.currency, purchase.date, valuation.valuationDate);
+
+  return {
+    nominal: figures(purchase.price, value),
+    real: adjustedCost !== null
+      ? { ...figures(adjustedCost, value), purchaseCostAdjusted: round2(adjustedCost) }
+      : null,
+  };
+};
@@ -0,0 +1,225 @@
+/**
+ * Valuation Refresh Worker
+ *
+ * In-process background job that recomputes valuations whose nextUpdateAt
+ * has passed. Runs on an interval, processes due assets in batches with a
+ * concurrency limit and keeps run statistics for the admin API.
+ */
+
+import { and, eq, lte, isNull } from 'drizzle-orm';
+import { getDatabase, assets, assetValuations } from '../db.js';
+import { recomputeAssetValuations } from './engine.js';
+
+export interface RefreshWorkerOptions {
+  intervalMs: number;
+  batchSize: number;
+  concurrency: number;
+  // Delay before retrying an asset whose refresh failed
+  retryDelayMs: number;
+}
+
+export interface RefreshRunStats {
+  startedAt: Date;
+  finishedAt: Date | null;
+  durationMs: number | null;
+  due: number;
+  refreshed: number;
+  // Assets gone (deleted) by the time they were recomputed
+  skipped: number;
+  failed: number;
+  errors: { assetId: string; message: string }[];
+}
+
+export interface RefreshWorkerStats {
+  enabled: boolean;
+  running: boolean;
+  options: RefreshWorkerOptions;
+  totalRuns: number;
+  totalRefreshed: number;
+  totalSkipped: number;
+  totalFailed: number;
+  lastRun: RefreshRunStats | null;
+}
+
+export const DEFAULT_REFRESH_WORKER_OPTIONS: RefreshWorkerOptions = {
+  intervalMs: 5 * 60 * 1000, // 5 minutes
+  batchSize: 50,
+  concurrency: 4,
+  retryDelayMs: 60 * 60 * 1000, // 1 hour
+};
+
+// Errors kept on the last run stats
+const MAX_REPORTED_ERRORS = 20;
+
+let options: RefreshWorkerOptions = { ...DEFAULT_REFRESH_WORKER_OPTIONS };
+let timer: NodeJS.Timeout | null = null;
+let currentRun: Promise<RefreshRunStats> | null = null;
+let totalRuns = 0;
+let totalRefreshed = 0;
+let totalSkipped = 0;
+let totalFailed = 0;
+let lastRun: RefreshRunStats | null = null;
+
+/**
+ * Assets whose latest valuation is due for a refresh
+ */
+const findDueAssetIds = async (now: Date, limit: number): Promise<string[]> => {
+  const db = getDatabase();
+
+  const rows = await db.selectDistinct({ assetId: assetValuations.assetId })
+    .from(assetValuations)
+    .innerJoin(assets, eq(assetValuations.assetId, assets.id))
+    .where(and(
+      lte(assetValuations.nextUpdateAt, now),
+      isNull(assets.deletedAt),
+      eq(assets.status, 'active')
+    ))
+    .limit(limit);
+
+  return rows.map((row) => row.assetId);
+};
+
+/**
+ * Push back the schedule of an asset whose refresh failed so it is not retried on every tick
+ */
+const postponeRefresh = async (assetId: string, now: Date) => {
+  const db = getDatabase();
+
+  await db.update(assetValuations)
+    .set({ nextUpdateAt: new Date(now.getTime() + options.retryDelayMs) })
+    .where(and(
+      eq(assetValuations.assetId, assetId),
+      lte(assetValuations.nextUpdateAt, now)
+    ));
+};
+
+/**
+ * Run `task` over `items` with at most `concurrency` tasks in flight
+ */
+const runWithConcurrency = async <T>(
+  items: T[],
+  concurrency: number,
+  task: (item: T) => Promise<void>
+): Promise<void> => {
+  let index = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, async () => {
+    while (index < items.length) {
+      const item = items[index++];
+      await task(item);
+    }
+  });
+
+  await Promise.all(lanes);
+};
+
+const executeRun = async (): Promise<RefreshRunStats> => {
+  const now = new Date();
+  const run: RefreshRunStats = {
+    startedAt: now,
+    finishedAt: null,
+    durationMs: null,
+    due: 0,
+    refreshed: 0,
+    skipped: 0,
+    failed: 0,
+    errors: [],
+  };
+  lastRun = run;
+
+  try {
+    const assetIds = await findDueAssetIds(now, options.batchSize);
+    run.due = assetIds.length;
+
+    await runWithConcurrency(assetIds, options.concurrency, async (assetId) => {
+      try {
+        if (await recomputeAssetValuations(assetId)) {
+          run.refreshed++;
+        } else {
+          run.skipped++;
+        }
+      } catch (error) {
+        run.failed++;
+        if (run.errors.length < MAX_REPORTED_ERRORS) {
+          run.errors.push({
+            assetId,
+            message: error instanceof Error ? error.message : 'Unknown error',
+          });
+        }
+        await postponeRefresh(assetId, now).catch((postponeError) => {
+          console.error('Valuation refresh reschedule error:', postponeError);
+        });
+      }
+    });
+  } catch (error) {
+    console.error('Valuation refresh run error:', error);
+    run.errors.push({
+      assetId: '',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    });
+  }
+
+  run.finishedAt = new Date();
+  run.durationMs = run.finishedAt.getTime() - run.startedAt.getTime();
+  totalRuns++;
+  totalRefreshed += run.refreshed;
+  totalSkipped += run.skipped;
+  totalFailed += run.failed;
+
+  return run;
+};
+
+/**
+ * Run one refresh pass now. If a pass is already in progress, waits for it instead.
+ */
+export const runValuationRefresh = async (): Promise<RefreshRunStats> => {
+  if (!currentRun) {
+    currentRun = executeRun().finally(() => {
+      currentRun = null;
+    });
+  }
+
+  return currentRun;
+};
+
+/**
+ * Start the periodic refresh loop
+ */
+export const startValuationRefreshWorker = (overrides: Partial<RefreshWorkerOptions> = {}) => {
+  if (timer) {
+    return;
+  }
+
+  options = { ...DEFAULT_REFRESH_WORKER_OPTIONS, ...overrides };
+  timer = setInterval(() => {
+    runValuationRefresh().catch((error) => {
+      console.error('Valuation refresh worker error:', error);
+    });
+  }, options.intervalMs);
+
+  // Don't keep the process alive just for the worker
+  timer.unref();
+};
+
+/**
+ * Stop the periodic refresh loop (an in-flight pass is allowed to finish)
+ */
+export const stopValuationRefreshWorker = () => {
+  if (timer) {
+    clearInterval(timer);
+    timer = null;
+  }
+};
+
+/**
+ * Current worker state and run statistics
+ */
+export const getValuationRefreshStats = (): RefreshWorkerStats => ({
+  enabled: timer !== null,
+  running: currentRun !== null,
+  options,
+  totalRuns,
+  totalRefreshed,
+  totalSkipped,
+  totalFailed,
+  lastRun,
+});
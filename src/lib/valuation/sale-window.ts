@@ -0,0 +1,292 @@
+/**
+ * Resale Window Recommender
+ *
+ * Projects the three valuation scenarios month by month and recommends when
+ * to list an asset so it sells before its target price becomes unreachable,
+ * timed for the category's seasonal peak when it has one.
+ */
+
+import { eq, and, isNull } from 'drizzle-orm';
+import { getDatabase, assets, assetCategories } from '../db.js';
+import {
+  VALUATION_SCENARIOS,
+  parseDepreciationProfile,
+  retainedShare,
+  scenarioRate,
+  seasonalFactor,
+  valueAt,
+  yearsBetween,
+  type DepreciationProfile,
+  type ValuationScenario,
+} from './depreciation.js';
+import { getLatestValuations } from './engine.js';
+import { withSeasonality, monthName } from './seasonality.js';
+import { getMarketVelocityStats } from '../market-data/velocity.js';
+import { normalizeCurrency } from '../fx/rates.js';
+
+// Projection covers at least this many months, or the planned sale date plus a margin
+const MIN_HORIZON_MONTHS = 24;
+const HORIZON_MARGIN_MONTHS = 6;
+const MAX_HORIZON_MONTHS = 60;
+// Used when the market has no days-to-sell data for the category
+const DEFAULT_DAYS_TO_SELL = 30;
+// Length of the recommended listing window
+const LISTING_WINDOW_DAYS = 30;
+// Without a deadline, wait at most this long for a seasonal peak
+const SEASONAL_SEARCH_MONTHS = 12;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ScenarioValues = Record<ValuationScenario, number>;
+
+export interface ProjectionPoint {
+  date: Date;
+  values: ScenarioValues;
+}
+
+export interface MarketVelocity {
+  medianDaysToSell: number;
+  sampleSize: number;
+}
+
+export interface SaleRecommendation {
+  assetId: string;
+  // Currency of every amount below (the asset's purchase currency)
+  currency: string;
+  targetSalePrice: number | null;
+  plannedSaleDate: Date | null;
+  marketVelocity: MarketVelocity;
+  projection: ProjectionPoint[];
+  targetUnreachableAt: Record<ValuationScenario, Date | null>;
+  recommendation: {
+    listFrom: Date;
+    listUntil: Date;
+    expectedSaleDate: Date;
+    expectedProceeds: ScenarioValues;
+    reason: string;
+  };
+}
+
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  return result;
+};
+
+const monthsBetween = (from: Date, to: Date): number => {
+  return (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+};
+
+/**
+ * Project today's scenario values forward along the category curve and
+ * seasonality, one point per month
+ */
+export const projectMonthly = (params: {
+  startValues: ScenarioValues;
+  purchaseDate: Date;
+  profile: DepreciationProfile;
+  from: Date;
+  months: number;
+}): ProjectionPoint[] => {
+  const { startValues, purchaseDate, profile, from, months } = params;
+  const ageNow = yearsBetween(purchaseDate, from);
+  const seasonNow = seasonalFactor(profile, from);
+  const points: ProjectionPoint[] = [];
+
+  for (let month = 0; month <= months; month++) {
+    const date = addMonths(from, month);
+    const age = yearsBetween(purchaseDate, date);
+    const values = {} as ScenarioValues;
+
+    for (const scenario of VALUATION_SCENARIOS) {
+      const rate = scenarioRate(profile, scenario);
+      const shareNow = retainedShare(profile.curve_type, rate, ageNow);
+      const share = retainedShare(profile.curve_type, rate, age);
+      const trend = shareNow > 0 ? share / shareNow : 1;
+      values[scenario] = startValues[scenario] * trend * (seasonalFactor(profile, date) / seasonNow);
+    }
+
+    points.push({ date, values });
+  }
+
+  return points;
+};
+
+/**
+ * Interpolated scenario values at an arbitrary date inside the projection
+ */
+const valuesAtDate = (projection: ProjectionPoint[], date: Date): ScenarioValues => {
+  const next = projection.findIndex((point) => point.date >= date);
+  if (next <= 0) {
+    return (next === 0 ? projection[0] : projection[projection.length - 1]).values;
+  }
+
+  const before = projection[next - 1];
+  const after = projection[next];
+  const ratio = (date.getTime() - before.date.getTime()) / (after.date.getTime() - before.date.getTime());
+  const values = {} as ScenarioValues;
+  for (const scenario of VALUATION_SCENARIOS) {
+    values[scenario] = before.values[scenario] + (after.values[scenario] - before.values[scenario]) * ratio;
+  }
+  return values;
+};
+
+/**
+ * Median days-to-sell observed on the market for a category (and brand/model when known)
+ */
+export const getMarketVelocity = async (
+  categoryId: string,
+  brand: string | null,
+  model: string | null = null
+): Promise<MarketVelocity> => {
+  const stats = await getMarketVelocityStats({ categoryId, brand, model });
+
+  return {
+    medianDaysToSell: stats.daysToSell.median !== null ? Math.round(stats.daysToSell.median) : DEFAULT_DAYS_TO_SELL,
+    sampleSize: stats.sold,
+  };
+};
+
+/**
+ * Build the sale recommendation for an asset, or null if the asset does not exist
+ */
+export const recommendSaleWindow = async (
+  assetId: string,
+  now: Date = new Date()
+): Promise<SaleRecommendation | null> => {
+  const db = getDatabase();
+
+  const assetResult = await db.select({
+    id: assets.id,
+    categoryId: assets.categoryId,
+    brand: assets.brand,
+    model: assets.model,
+    condition: assets.condition,
+    purchasePrice: assets.purchasePrice,
+    purchaseDate: assets.purchaseDate,
+    plannedSaleDate: assets.plannedSaleDate,
+    targetSalePrice: assets.targetSalePrice,
+    purchaseCurrency: assets.purchaseCurrency,
+    depreciationProfile: assetCategories.depreciationProfile,
+  })
+  .from(assets)
+  .leftJoin(assetCategories, eq(assets.categoryId, assetCategories.id))
+  .where(and(eq(assets.id, assetId), isNull(assets.deletedAt)))
+  .limit(1);
+
+  const asset = assetResult[0];
+  if (!asset) {
+    return null;
+  }
+
+  const profile = await withSeasonality(asset.categoryId, parseDepreciationProfile(asset.depreciationProfile));
+  const purchasePrice = parseFloat(asset.purchasePrice);
+  const targetSalePrice = asset.targetSalePrice !== null ? parseFloat(asset.targetSalePrice) : null;
+
+  // Start from the stored estimates when available, otherwise from the curve
+  const latest = await getLatestValuations(assetId);
+  const startValues = {} as ScenarioValues;
+  for (const scenario of VALUATION_SCENARIOS) {
+    const stored = latest.find((valuation) => valuation.scenario === scenario);
+    startValues[scenario] = stored
+      ? parseFloat(stored.currentValue)
+      : valueAt({ purchasePrice, purchaseDate: asset.purchaseDate, condition: asset.condition, profile, scenario, at: now });
+  }
+
+  const plannedMonths = asset.plannedSaleDate ? monthsBetween(now, asset.plannedSaleDate) + HORIZON_MARGIN_MONTHS : 0;
+  const horizon = Math.min(MAX_HORIZON_MONTHS, Math.max(MIN_HORIZON_MONTHS, plannedMonths));
+
+  const projection = projectMonthly({
+    startValues,
+    purchaseDate: asset.purchaseDate,
+    profile,
+    from: now,
+    months: horizon,
+  });
+
+  const targetUnreachableAt = {} as Record<ValuationScenario, Date | null>;
+  for (const scenario of VALUATION_SCENARIOS) {
+    targetUnreachableAt[scenario] = targetSalePrice !== null
+      ? projection.find((point) => point.values[scenario] < targetSalePrice)?.date ?? null
+      : null;
+  }
+
+  const marketVelocity = await getMarketVelocity(asset.categoryId, asset.brand, asset.model);
+  const daysToSell = marketVelocity.medianDaysToSell;
+
+  // The sale must complete before the realistic value drops below the target
+  // and, if set, before the planned sale date
+  const deadlines: { date: Date; reason: string }[] = [];
+  if (targetUnreachableAt.realistic) {
+    deadlines.push({
+      date: targetUnreachableAt.realistic,
+      reason: `the realistic value falls below the target of ${targetSalePrice!.toFixed(2)}`,
+    });
+  }
+  if (asset.plannedSaleDate && asset.plannedSaleDate > now) {
+    deadlines.push({ date: asset.plannedSaleDate, reason: 'the planned sale date' });
+  }
+
+  let reason: string;
+  let listUntil: Date;
+  if (deadlines.length > 0) {
+    const deadline = deadlines.reduce((earliest, candidate) => candidate.date < earliest.date ? candidate : earliest);
+    listUntil = new Date(Math.max(now.getTime(), deadline.date.getTime() - daysToSell * DAY_MS));
+    reason = `List at least ${daysToSell} days (median time to sell) before ${deadline.reason}.`;
+  } else if (profile.annual_rate < 0) {
+    listUntil = addMonths(now, horizon);
+    reason = 'This category tends to appreciate; holding longer is expected to increase proceeds.';
+  } else {
+    listUntil = new Date(now.getTime() + LISTING_WINDOW_DAYS * DAY_MS);
+    reason = 'No target price or planned sale date is set and the value keeps decreasing; selling soon maximizes proceeds.';
+  }
+
+  let listFrom = new Date(Math.max(now.getTime(), listUntil.getTime() - LISTING_WINDOW_DAYS * DAY_MS));
+
+  // Seasonal categories: list in the month that maximizes the realistic proceeds
+  // among the dates that still meet the deadline
+  if (profile.seasonality && profile.annual_rate >= 0) {
+    const latestStart = deadlines.length > 0 ? listFrom : addMonths(now, SEASONAL_SEARCH_MONTHS);
+    const proceedsIfListedAt = (date: Date) =>
+      valuesAtDate(projection, new Date(date.getTime() + daysToSell * DAY_MS)).realistic;
+
+    let peak = listFrom;
+    for (let month = 0; addMonths(now, month) <= latestStart; month++) {
+      const candidate = addMonths(now, month);
+      if (proceedsIfListedAt(candidate) > proceedsIfListedAt(peak)) {
+        peak = candidate;
+      }
+    }
+
+    if (peak.getTime() !== listFrom.getTime()) {
+      listFrom = peak;
+      const windowEnd = listFrom.getTime() + LISTING_WINDOW_DAYS * DAY_MS;
+      listUntil = new Date(deadlines.length > 0 ? Math.min(windowEnd, listUntil.getTime()) : windowEnd);
+      const saleMonth = monthName(new Date(listFrom.getTime() + daysToSell * DAY_MS));
+      reason += ` Timed so the sale lands in ${saleMonth}, the seasonal peak for this category.`;
+    }
+  }
+
+  if (targetSalePrice !== null && projection[0].values.realistic < targetSalePrice) {
+    reason = `The target of ${targetSalePrice.toFixed(2)} is already above the realistic value; consider selling now or lowering the target.`;
+  }
+
+  const expectedSaleDate = new Date(listFrom.getTime() + daysToSell * DAY_MS);
+
+  return {
+    assetId,
+    currency: normalizeCurrency(asset.purchaseCurrency),
+    targetSalePrice,
+    plannedSaleDate: asset.plannedSaleDate,
+    marketVelocity,
+    projection,
+    targetUnreachableAt,
+    recommendation: {
+      listFrom,
+      listUntil,
+      expectedSaleDate,
+      expectedProceeds: valuesAtDate(projection, expectedSaleDate),
+      reason,
+    },
+  };
+};
@@ -0,0 +1,156 @@
+/**
+ * Seasonality
+ *
+ * Monthly price coefficients for seasonal categories (ski gear sells best in
+ * autumn, bicycles and garden tools in spring). Categories can configure
+ * coefficients in their depreciation profile; otherwise defaults are derived
+ * from when market data points actually sold.
+ */
+
+import { eq, and, gte, isNotNull, sql } from 'drizzle-orm';
+import { getDatabase, marketDataPoints } from '../db.js';
+import { usableMarketData } from '../market-data/outliers.js';
+import type { DepreciationProfile } from './depreciation.js';
+
+export interface MonthlySeasonality {
+  month: number; // 1-12
+  sampleSize: number;
+  medianRelativePrice: number | null;
+  coefficient: number;
+}
+
+export interface DerivedSeasonality {
+  categoryId: string;
+  sampleSize: number;
+  // Null when there are too few sales to tell
+  coefficients: number[] | null;
+  months: MonthlySeasonality[];
+}
+
+// Sales history used to derive coefficients
+const LOOKBACK_YEARS = 3;
+// Below this many sales in total the category is treated as non-seasonal
+export const MIN_SEASONALITY_SAMPLES = 60;
+// Months with fewer sales than this stay neutral
+const MIN_MONTH_SAMPLES = 5;
+// Shrinks noisy months towards 1: weight = n / (n + SHRINKAGE_SAMPLES)
+const SHRINKAGE_SAMPLES = 10;
+// Coefficients are kept within this band
+const MIN_COEFFICIENT = 0.7;
+const MAX_COEFFICIENT = 1.3;
+// Derived coefficients are cached this long per category
+const CACHE_TTL_MS = 6 * 60 * 60 * 1000;
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+const cache = new Map<string, { derived: DerivedSeasonality; cachedAt: number }>();
+
+const round4 = (value: number) => Math.round(value * 10000) / 10000;
+
+/**
+ * Name of the calendar month of a date (UTC)
+ */
+export const monthName = (date: Date): string => MONTH_NAMES[date.getUTCMonth()];
+
+/**
+ * Derive monthly coefficients for a category from sold market data. Each sale
+ * is compared with the average sold price of its brand/model cohort in the
+ * same currency, so the mix of cheap and expensive items sold in a month
+ * doesn't look seasonal and the ratios don't depend on exchange rates.
+ */
+export const deriveSeasonality = async (categoryId: string, now: Date = new Date()): Promise<DerivedSeasonality> => {
+  const db = getDatabase();
+  const since = new Date(now);
+  since.setFullYear(since.getFullYear() - LOOKBACK_YEARS);
+
+  const relativePrices = db.select({
+    month: sql<number>`extract(month from ${marketDataPoints.soldDate})::int`.as('month'),
+    relativePrice: sql<number>`CAST(${marketDataPoints.soldPrice} AS DECIMAL) / NULLIF(avg(CAST(${marketDataPoints.soldPrice} AS DECIMAL)) OVER (PARTITION BY ${marketDataPoints.brand}, ${marketDataPoints.model}, ${marketDataPoints.currency}), 0)`.as('relative_price'),
+  })
+  .from(marketDataPoints)
+  .where(and(
+    eq(marketDataPoints.categoryId, categoryId),
+    isNotNull(marketDataPoints.soldPrice),
+    isNotNull(marketDataPoints.soldDate),
+    gte(marketDataPoints.soldDate, since),
+    usableMarketData
+  ))
+  .as('relative_prices');
+
+  const rows = await db.select({
+    month: relativePrices.month,
+    sampleSize: sql<number>`count(*)::int`,
+    medianRelativePrice: sql<string | null>`percentile_cont(0.5) WITHIN GROUP (ORDER BY ${relativePrices.relativePrice})`,
+  })
+  .from(relativePrices)
+  .groupBy(relativePrices.month);
+
+  const sampleSize = rows.reduce((sum, row) => sum + row.sampleSize, 0);
+
+  // Shrunk raw ratios; neutral for thin months
+  const raw = Array.from({ length: 12 }, (_, index) => {
+    const row = rows.find((candidate) => candidate.month === index + 1);
+    const median = row?.medianRelativePrice !== null && row?.medianRelativePrice !== undefined
+      ? Number(row.medianRelativePrice)
+      : null;
+
+    if (!row || median === null || row.sampleSize < MIN_MONTH_SAMPLES) {
+      return { sampleSize: row?.sampleSize ?? 0, median, value: 1 };
+    }
+
+    const weight = row.sampleSize / (row.sampleSize + SHRINKAGE_SAMPLES);
+    return { sampleSize: row.sampleSize, median, value: 1 + (median - 1) * weight };
+  });
+
+  // Rescale so the coefficients average 1, then bound them
+  const mean = raw.reduce((sum, month) => sum + month.value, 0) / 12;
+  const coefficients = raw.map((month) =>
+    round4(Math.min(MAX_COEFFICIENT, Math.max(MIN_COEFFICIENT, month.value / mean)))
+  );
+  const seasonal = sampleSize >= MIN_SEASONALITY_SAMPLES;
+
+  return {
+    categoryId,
+    sampleSize,
+    coefficients: seasonal ? coefficients : null,
+    months: raw.map((month, index) => ({
+      month: index + 1,
+      sampleSize: month.sampleSize,
+      medianRelativePrice: month.median !== null ? round4(month.median) : null,
+      coefficient: seasonal ? coefficients[index] : 1,
+    })),
+  };
+};
+
+/**
+ * Derived seasonality, cached per category
+ */
+export const getDerivedSeasonality = async (categoryId: string): Promise<DerivedSeasonality> => {
+  const cached = cache.get(categoryId);
+  if (cached && Date.now() - cached.cachedAt < CACHE_TTL_MS) {
+    return cached.derived;
+  }
+
+  const derived = await deriveSeasonality(categoryId);
+  cache.set(categoryId, { derived, cachedAt: Date.now() });
+  return derived;
+};
+
+/**
+ * Profile with seasonality filled in: coefficients configured on the
+ * category win, otherwise the ones derived from market data (if any)
+ */
+export const withSeasonality = async (
+  categoryId: string,
+  profile: DepreciationProfile
+): Promise<DepreciationProfile> => {
+  if (profile.seasonality) {
+    return profile;
+  }
+
+  const derived = await getDerivedSeasonality(categoryId);
+  return derived.coefficients ? { ...profile, seasonality: derived.coefficients } : profile;
+};
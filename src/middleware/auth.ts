@@ -5,18 +5,24 @@
  */
 
 import { createMiddleware } from 'hono/factory';
+import type { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
 import { env } from 'hono/adapter';
 import { verifyToken, extractTokenFromHeader, type UserJWTPayload } from '../lib/auth/jwt.js';
 import { getDatabase } from '../lib/db.js';
 import { users } from '../lib/db.js';
-import { eq, and } from 'drizzle-orm';
+import { eq } from 'drizzle-orm';
+import { getActiveMembership } from '../lib/organizations/access.js';
+import { hasPermission, type OrganizationRole, type Permission } from '../lib/organizations/permissions.js';
 
 // Extend Hono's Variables type to include our user context
 declare module 'hono' {
   interface ContextVariableMap {
     user: UserJWTPayload;
     userId: string;
+    // Set by the organization guards below
+    organizationId: string;
+    userRole: OrganizationRole;
   }
 }
 
@@ -111,6 +117,65 @@ export const requireUserType = (requiredType: 'personal' | 'professional') => {
   });
 };
 
+/**
+ * Middleware restricting platform administration endpoints to the accounts
+ * listed in the comma-separated ADMIN_EMAILS variable. The account's current,
+ * verified email is checked, not the one in the token: anyone can register an
+ * unclaimed address, and emails change after tokens are issued.
+ */
+export const requireAdmin = createMiddleware(async (c, next) => {
+  const userId = c.get('userId');
+
+  if (!userId) {
+    throw new HTTPException(401, { 
+      message: 'Authentication required' 
+    });
+  }
+
+  const db = getDatabase();
+  const [user] = await db.select({
+    email: users.email,
+    emailVerified: users.emailVerified,
+  })
+  .from(users)
+  .where(eq(users.id, userId))
+  .limit(1);
+
+  const { ADMIN_EMAILS } = env<{ ADMIN_EMAILS?: string }>(c);
+  const adminEmails = (ADMIN_EMAILS || '')
+    .split(',')
+    .map((email) => email.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (!user || user.emailVerified !== true || !adminEmails.includes(user.email.toLowerCase())) {
+    throw new HTTPException(403, { 
+      message: 'Administrator access required' 
+    });
+  }
+
+  await next();
+});
+
+/**
+ * Resolve the user's active membership in an organization and add it to the
+ * context. Throws 403 when the user isn't an active member.
+ */
+const loadOrganizationMembership = async (c: Context, userId: string, organizationId: string) => {
+  const membership = await getActiveMembership(userId, organizationId);
+
+  if (!membership) {
+    throw new HTTPException(403, { 
+      message: 'Access denied to this organization' 
+    });
+  }
+
+  // Add organization context to variables
+  c.set('organizationId', organizationId);
+  c.set('userRole', membership.role);
+
+  return membership;
+};
+
 /**
  * Middleware to check organization membership (for professional features)
  */
@@ -129,31 +194,40 @@ export const requireOrganizationAccess = (organizationId?: string) => {
     const orgId = organizationId || c.req.param('organizationId');
     
     if (orgId) {
-      const db = getDatabase();
-      const { userOrganizations } = await import('../lib/db.js');
-      
-      const membership = await db.select({
-        id: userOrganizations.id,
-        role: userOrganizations.role,
-      })
-      .from(userOrganizations)
-      .where(
-        and(
-          eq(userOrganizations.userId, userId),
-          eq(userOrganizations.organizationId, orgId)
-        )
-      )
-      .limit(1);
-
-      if (!membership[0]) {
-        throw new HTTPException(403, { 
-          message: 'Access denied to this organization' 
-        });
-      }
-
-      // Add organization context to variables
-      c.set('organizationId', orgId);
-      c.set('userRole', membership[0].role);
+      await loadOrganizationMembership(c, userId, orgId);
+    }
+
+    await next();
+  });
+};
+
+/**
+ * Middleware requiring the user's role in the organization (given, or taken
+ * from the :organizationId route parameter) to grant a permission
+ */
+export const requirePermission = (permission: Permission, organizationId?: string) => {
+  return createMiddleware(async (c, next) => {
+    const userId = c.get('userId');
+    
+    if (!userId) {
+      throw new HTTPException(401, { 
+        message: 'Authentication required' 
+      });
+    }
+
+    const orgId = organizationId || c.req.param('organizationId');
+    if (!orgId) {
+      throw new HTTPException(400, { 
+        message: 'Organization ID required' 
+      });
+    }
+
+    const membership = await loadOrganizationMembership(c, userId, orgId);
+
+    if (!hasPermission(membership.role, permission)) {
+      throw new HTTPException(403, { 
+        message: `Missing permission: ${permission}` 
+      });
     }
 
     await next();
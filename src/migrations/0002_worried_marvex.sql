@@ -0,0 +1,18 @@
+CREATE TABLE "valuation_backtests" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"run_id" uuid NOT NULL,
+	"category_id" uuid,
+	"period_start" timestamp,
+	"period_end" timestamp,
+	"sample_size" integer NOT NULL,
+	"mape" numeric(8, 4),
+	"bias" numeric(8, 4),
+	"band_hit_rate" numeric(5, 4),
+	"details" jsonb,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "valuation_backtests" ADD CONSTRAINT "valuation_backtests_category_id_asset_categories_id_fk" FOREIGN KEY ("category_id") REFERENCES "public"."asset_categories"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "valuation_backtests_run_idx" ON "valuation_backtests" USING btree ("run_id");--> statement-breakpoint
+CREATE INDEX "valuation_backtests_category_idx" ON "valuation_backtests" USING btree ("category_id");--> statement-breakpoint
+CREATE INDEX "valuation_backtests_created_at_idx" ON "valuation_backtests" USING btree ("created_at");
\ No newline at end of file
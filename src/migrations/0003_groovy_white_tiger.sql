@@ -0,0 +1 @@
+ALTER TABLE "market_data_points" ADD CONSTRAINT "market_data_source_external_unique" UNIQUE("source_id","external_id");
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "market_data_sources" ADD COLUMN "sync_cursor" text;--> statement-breakpoint
+ALTER TABLE "market_data_sources" ADD COLUMN "sync_started_at" timestamp;
\ No newline at end of file
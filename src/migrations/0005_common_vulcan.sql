@@ -0,0 +1,9 @@
+CREATE TYPE "public"."outlier_status" AS ENUM('clear', 'flagged', 'confirmed', 'dismissed');--> statement-breakpoint
+ALTER TABLE "market_data_points" ADD COLUMN "outlier_status" "outlier_status" DEFAULT 'clear' NOT NULL;--> statement-breakpoint
+ALTER TABLE "market_data_points" ADD COLUMN "outlier_reason" text;--> statement-breakpoint
+ALTER TABLE "market_data_points" ADD COLUMN "outlier_score" numeric(8, 2);--> statement-breakpoint
+ALTER TABLE "market_data_points" ADD COLUMN "outlier_checked_at" timestamp;--> statement-breakpoint
+ALTER TABLE "market_data_points" ADD COLUMN "outlier_reviewed_by" uuid;--> statement-breakpoint
+ALTER TABLE "market_data_points" ADD COLUMN "outlier_reviewed_at" timestamp;--> statement-breakpoint
+ALTER TABLE "market_data_points" ADD CONSTRAINT "market_data_points_outlier_reviewed_by_users_id_fk" FOREIGN KEY ("outlier_reviewed_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "market_data_outlier_status_idx" ON "market_data_points" USING btree ("outlier_status");
\ No newline at end of file
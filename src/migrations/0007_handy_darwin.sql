@@ -0,0 +1,14 @@
+CREATE TABLE "fx_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"rate_date" timestamp NOT NULL,
+	"base_currency" varchar(3) NOT NULL,
+	"quote_currency" varchar(3) NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"source" varchar(50),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "fx_rates_pair_date_unique" UNIQUE("base_currency","quote_currency","rate_date")
+);
+--> statement-breakpoint
+ALTER TABLE "users" ADD COLUMN "reporting_currency" varchar(3) DEFAULT 'EUR';--> statement-breakpoint
+CREATE INDEX "fx_rates_date_idx" ON "fx_rates" USING btree ("rate_date");
\ No newline at end of file
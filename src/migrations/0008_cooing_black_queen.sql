@@ -0,0 +1,10 @@
+CREATE TABLE "cpi_indices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"area" varchar(3) NOT NULL,
+	"period" timestamp NOT NULL,
+	"index_value" numeric(12, 4) NOT NULL,
+	"source" varchar(50),
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "cpi_indices_area_period_unique" UNIQUE("area","period")
+);
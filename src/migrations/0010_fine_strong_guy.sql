@@ -0,0 +1,2 @@
+ALTER TABLE "assets" ADD COLUMN "review_flagged_at" timestamp;--> statement-breakpoint
+ALTER TABLE "assets" ADD COLUMN "review_reason" varchar(255);
\ No newline at end of file
@@ -0,0 +1,10 @@
+ALTER TABLE "assets" ADD COLUMN "search_vector" "tsvector" GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('french', coalesce("name", '')), 'A') ||
+    setweight(to_tsvector('simple', coalesce("brand", '') || ' ' || coalesce("model", '') || ' ' || coalesce("serial_number", '')), 'B') ||
+    setweight(jsonb_to_tsvector('simple', coalesce("tags", '[]'::jsonb), '["string"]'), 'C') ||
+    setweight(to_tsvector('english', coalesce("description", '') || ' ' || coalesce("notes", '')), 'D') ||
+    setweight(to_tsvector('french', coalesce("description", '') || ' ' || coalesce("notes", '')), 'D')
+  ) STORED;--> statement-breakpoint
+CREATE INDEX "assets_search_idx" ON "assets" USING gin ("search_vector");
\ No newline at end of file
@@ -0,0 +1,584 @@
+/**
+ * Admin Routes
+ *
+ * Hono RPC routes for platform administration (background jobs, maintenance,
+ * brand normalization dictionary)
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { authMiddleware, requireAdmin } from '../middleware/auth.js';
+import { getValuationRefreshStats, runValuationRefresh } from '../lib/valuation/refresh-worker.js';
+import { getTrashPurgeStats, runTrashPurge } from '../lib/assets/trash.js';
+import { runValuationBacktest, getBacktestResults } from '../lib/valuation/backtest.js';
+import {
+  listBrands,
+  createBrand,
+  updateBrand,
+  deleteBrand,
+  addBrandAlias,
+  deleteBrandAlias,
+  upsertModelAlias,
+  deleteModelAlias,
+  getNormalizationDictionary,
+} from '../lib/normalization/dictionary.js';
+import { normalizeBrandModel, normalizeKey } from '../lib/normalization/normalize.js';
+import type { HonoEnv } from '../lib/env.js';
+
+const app = new Hono<HonoEnv>();
+
+const backtestRunSchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+});
+
+const backtestResultsQuerySchema = z.object({
+  runId: z.string().uuid().optional(),
+});
+
+const brandParamSchema = z.object({
+  id: z.string().uuid('Invalid brand ID'),
+});
+
+const aliasParamSchema = z.object({
+  id: z.string().uuid('Invalid brand ID'),
+  aliasId: z.string().uuid('Invalid alias ID'),
+});
+
+const createBrandSchema = z.object({
+  name: z.string().trim().min(1, 'Brand name is required').max(100, 'Brand name too long'),
+  aliases: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+});
+
+const updateBrandSchema = createBrandSchema.pick({ name: true });
+
+const brandAliasSchema = z.object({
+  alias: z.string().trim().min(1, 'Alias is required').max(100, 'Alias too long')
+    .refine((alias) => normalizeKey(alias).length > 0, 'Alias must contain letters or digits'),
+});
+
+const modelAliasSchema = z.object({
+  alias: z.string().trim().min(1, 'Alias is required').max(100, 'Alias too long')
+    .refine((alias) => normalizeKey(alias).length > 0, 'Alias must contain letters or digits'),
+  canonicalModel: z.string().trim().min(1, 'Canonical model is required').max(100, 'Canonical model too long'),
+});
+
+const normalizationPreviewSchema = z.object({
+  brand: z.string().max(100).optional(),
+  model: z.string().max(100).optional(),
+});
+
+// Postgres unique_violation
+const isUniqueViolation = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+
+/**
+ * GET /jobs/valuation-refresh - Valuation refresh worker statistics
+ */
+const getValuationRefreshStatsRoute = app.get(
+  '/jobs/valuation-refresh',
+  authMiddleware,
+  requireAdmin,
+  async (c) => {
+    return c.json({
+      success: true,
+      data: getValuationRefreshStats(),
+    });
+  }
+);
+
+/**
+ * POST /jobs/valuation-refresh/run - Trigger a valuation refresh pass immediately
+ */
+const runValuationRefreshRoute = app.post(
+  '/jobs/valuation-refresh/run',
+  authMiddleware,
+  requireAdmin,
+  async (c) => {
+    try {
+      const run = await runValuationRefresh();
+
+      return c.json({
+        success: true,
+        message: 'Valuation refresh completed',
+        data: run,
+      });
+
+    } catch (error) {
+      console.error('Run valuation refresh error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to run valuation refresh'
+      });
+    }
+  }
+);
+
+/**
+ * GET /jobs/trash-purge - Trash purge worker statistics
+ */
+const getTrashPurgeStatsRoute = app.get(
+  '/jobs/trash-purge',
+  authMiddleware,
+  requireAdmin,
+  async (c) => {
+    return c.json({
+      success: true,
+      data: getTrashPurgeStats(),
+    });
+  }
+);
+
+/**
+ * POST /jobs/trash-purge/run - Purge expired trashed assets immediately
+ */
+const runTrashPurgeRoute = app.post(
+  '/jobs/trash-purge/run',
+  authMiddleware,
+  requireAdmin,
+  async (c) => {
+    try {
+      const run = await runTrashPurge();
+
+      return c.json({
+        success: true,
+        message: 'Trash purge completed',
+        data: run,
+      });
+
+    } catch (error) {
+      console.error('Run trash purge error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to run trash purge'
+      });
+    }
+  }
+);
+
+/**
+ * POST /jobs/valuation-backtest/run - Backtest valuations against actual sale prices
+ */
+const runValuationBacktestRoute = app.post(
+  '/jobs/valuation-backtest/run',
+  authMiddleware,
+  requireAdmin,
+  zValidator('json', backtestRunSchema),
+  async (c) => {
+    const { from, to } = c.req.valid('json');
+
+    try {
+      const run = await runValuationBacktest(
+        from ? new Date(from) : undefined,
+        to ? new Date(to) : undefined
+      );
+
+      return c.json({
+        success: true,
+        message: 'Valuation backtest completed',
+        data: run,
+      }, 201);
+
+    } catch (error) {
+      console.error('Run valuation backtest error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to run valuation backtest'
+      });
+    }
+  }
+);
+
+/**
+ * GET /valuation-backtests - Per-category results of a backtest run (latest by default)
+ */
+const getValuationBacktestsRoute = app.get(
+  '/valuation-backtests',
+  authMiddleware,
+  requireAdmin,
+  zValidator('query', backtestResultsQuerySchema),
+  async (c) => {
+    const { runId } = c.req.valid('query');
+
+    try {
+      const results = await getBacktestResults(runId);
+
+      if (runId && results.length === 0) {
+        throw new HTTPException(404, {
+          message: 'Backtest run not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        data: results,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get valuation backtests error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch valuation backtests'
+      });
+    }
+  }
+);
+
+/**
+ * GET /brands - Canonical brands with their brand and model aliases
+ */
+const listBrandsRoute = app.get(
+  '/brands',
+  authMiddleware,
+  requireAdmin,
+  async (c) => {
+    try {
+      const result = await listBrands();
+
+      return c.json({
+        success: true,
+        data: result,
+      });
+
+    } catch (error) {
+      console.error('List brands error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch brands'
+      });
+    }
+  }
+);
+
+/**
+ * POST /brands - Create a canonical brand
+ */
+const createBrandRoute = app.post(
+  '/brands',
+  authMiddleware,
+  requireAdmin,
+  zValidator('json', createBrandSchema),
+  async (c) => {
+    const { name, aliases } = c.req.valid('json');
+
+    try {
+      const brand = await createBrand(name, aliases);
+
+      return c.json({
+        success: true,
+        message: 'Brand created successfully',
+        data: brand,
+      }, 201);
+
+    } catch (error) {
+      if (isUniqueViolation(error)) {
+        throw new HTTPException(409, {
+          message: 'Brand or alias already exists'
+        });
+      }
+
+      console.error('Create brand error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to create brand'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /brands/:id - Rename a brand
+ */
+const updateBrandRoute = app.put(
+  '/brands/:id',
+  authMiddleware,
+  requireAdmin,
+  zValidator('param', brandParamSchema),
+  zValidator('json', updateBrandSchema),
+  async (c) => {
+    const { id } = c.req.valid('param');
+    const { name } = c.req.valid('json');
+
+    try {
+      const brand = await updateBrand(id, name);
+
+      if (!brand) {
+        throw new HTTPException(404, {
+          message: 'Brand not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Brand updated successfully',
+        data: brand,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw new HTTPException(409, {
+          message: 'Brand with this name already exists'
+        });
+      }
+
+      console.error('Update brand error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to update brand'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /brands/:id - Delete a brand and its aliases
+ */
+const deleteBrandRoute = app.delete(
+  '/brands/:id',
+  authMiddleware,
+  requireAdmin,
+  zValidator('param', brandParamSchema),
+  async (c) => {
+    const { id } = c.req.valid('param');
+
+    try {
+      const deleted = await deleteBrand(id);
+
+      if (!deleted) {
+        throw new HTTPException(404, {
+          message: 'Brand not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Brand deleted successfully',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Delete brand error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to delete brand'
+      });
+    }
+  }
+);
+
+/**
+ * POST /brands/:id/aliases - Add an alternative spelling of a brand
+ */
+const addBrandAliasRoute = app.post(
+  '/brands/:id/aliases',
+  authMiddleware,
+  requireAdmin,
+  zValidator('param', brandParamSchema),
+  zValidator('json', brandAliasSchema),
+  async (c) => {
+    const { id } = c.req.valid('param');
+    const { alias } = c.req.valid('json');
+
+    try {
+      const created = await addBrandAlias(id, alias);
+
+      if (!created) {
+        throw new HTTPException(404, {
+          message: 'Brand not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Brand alias added',
+        data: created,
+      }, 201);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      if (isUniqueViolation(error)) {
+        throw new HTTPException(409, {
+          message: 'Alias is already assigned to a brand'
+        });
+      }
+
+      console.error('Add brand alias error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to add brand alias'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /brands/:id/aliases/:aliasId - Remove a brand alias
+ */
+const deleteBrandAliasRoute = app.delete(
+  '/brands/:id/aliases/:aliasId',
+  authMiddleware,
+  requireAdmin,
+  zValidator('param', aliasParamSchema),
+  async (c) => {
+    const { id, aliasId } = c.req.valid('param');
+
+    try {
+      const deleted = await deleteBrandAlias(id, aliasId);
+
+      if (!deleted) {
+        throw new HTTPException(404, {
+          message: 'Brand alias not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Brand alias removed',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Delete brand alias error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to remove brand alias'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /brands/:id/models - Map a model spelling to its canonical name
+ */
+const upsertModelAliasRoute = app.put(
+  '/brands/:id/models',
+  authMiddleware,
+  requireAdmin,
+  zValidator('param', brandParamSchema),
+  zValidator('json', modelAliasSchema),
+  async (c) => {
+    const { id } = c.req.valid('param');
+    const { alias, canonicalModel } = c.req.valid('json');
+
+    try {
+      const result = await upsertModelAlias(id, alias, canonicalModel);
+
+      if ('error' in result) {
+        throw result.error === 'brand_not_found'
+          ? new HTTPException(404, { message: 'Brand not found' })
+          : new HTTPException(400, { message: 'Alias must name a model, not only a brand or storage size' });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Model alias saved',
+        data: result.saved,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Save model alias error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to save model alias'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /brands/:id/models/:aliasId - Remove a model alias
+ */
+const deleteModelAliasRoute = app.delete(
+  '/brands/:id/models/:aliasId',
+  authMiddleware,
+  requireAdmin,
+  zValidator('param', aliasParamSchema),
+  async (c) => {
+    const { id, aliasId } = c.req.valid('param');
+
+    try {
+      const deleted = await deleteModelAlias(id, aliasId);
+
+      if (!deleted) {
+        throw new HTTPException(404, {
+          message: 'Model alias not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Model alias removed',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Delete model alias error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to remove model alias'
+      });
+    }
+  }
+);
+
+/**
+ * POST /normalization/preview - Show how a brand/model pair would be normalized
+ */
+const previewNormalizationRoute = app.post(
+  '/normalization/preview',
+  authMiddleware,
+  requireAdmin,
+  zValidator('json', normalizationPreviewSchema),
+  async (c) => {
+    const { brand, model } = c.req.valid('json');
+
+    try {
+      const dictionary = await getNormalizationDictionary();
+
+      return c.json({
+        success: true,
+        data: normalizeBrandModel(brand, model, dictionary),
+      });
+
+    } catch (error) {
+      console.error('Preview normalization error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to preview normalization'
+      });
+    }
+  }
+);
+
+// Combine all routes
+const adminRoutes = app
+  .route('/', getValuationRefreshStatsRoute)
+  .route('/', runValuationRefreshRoute)
+  .route('/', getTrashPurgeStatsRoute)
+  .route('/', runTrashPurgeRoute)
+  .route('/', runValuationBacktestRoute)
+  .route('/', getValuationBacktestsRoute)
+  .route('/', listBrandsRoute)
+  .route('/', createBrandRoute)
+  .route('/', updateBrandRoute)
+  .route('/', deleteBrandRoute)
+  .route('/', addBrandAliasRoute)
+  .route('/', deleteBrandAliasRoute)
+  .route('/', upsertModelAliasRoute)
+  .route('/', deleteModelAliasRoute)
+  .route('/', previewNormalizationRoute);
+
+export default adminRoutes;
+export type AdminRoutesType = typeof adminRoutes;
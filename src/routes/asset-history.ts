@@ -0,0 +1,295 @@
+/**
+ * Asset History Routes
+ *
+ * Hono RPC routes for browsing an asset's audit trail, viewing the asset as it
+ * was at a past date and reverting fields changed by a recorded change.
+ * Mounted under /assets alongside the asset routes.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { eq, and, isNull } from 'drizzle-orm';
+import { getDatabase, assets } from '../lib/db.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { canAccessAsset, type AssetAction } from '../lib/organizations/access.js';
+import {
+  listAssetHistory,
+  reconstructAssetState,
+  getChangeSet,
+  deserializeHistoryValue,
+  recordAssetChanges,
+  getAuditContext,
+  REVERTIBLE_FIELDS,
+  type Asset,
+  type AssetRecord
+} from '../lib/assets/history.js';
+import { assetColumns } from '../lib/assets/search.js';
+
+const app = new Hono();
+
+const historyQuerySchema = z.object({
+  action: z.string().max(50).optional(),
+  field: z.string().max(100).optional(),
+  actor: z.string().uuid().optional(),
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(200).default(50),
+});
+
+const asOfQuerySchema = z.object({
+  date: z.string().datetime(),
+});
+
+const revertSchema = z.object({
+  historyId: z.string().uuid(),
+  // Defaults to every revertible field of the change
+  fields: z.array(z.string()).min(1).optional(),
+  reason: z.string().max(1000).optional(),
+});
+
+/**
+ * Load an asset, deleted or not (its history outlives it), and make sure
+ * the current user may perform `action` on it
+ */
+const loadAccessibleAsset = async (assetId: string, userId: string, action: AssetAction): Promise<AssetRecord> => {
+  if (!z.string().uuid().safeParse(assetId).success) {
+    throw new HTTPException(400, {
+      message: 'Invalid asset ID'
+    });
+  }
+
+  const db = getDatabase();
+  const [asset] = await db.select(assetColumns)
+    .from(assets)
+    .where(eq(assets.id, assetId))
+    .limit(1);
+
+  if (!asset) {
+    throw new HTTPException(404, {
+      message: 'Asset not found'
+    });
+  }
+
+  if (!await canAccessAsset(userId, asset, action)) {
+    throw new HTTPException(403, {
+      message: 'Access denied'
+    });
+  }
+
+  return asset;
+};
+
+/**
+ * GET /:id/history - Audit trail, newest first, filterable by action, field,
+ * actor and date range
+ */
+const getAssetHistoryRoute = app.get(
+  '/:id/history',
+  authMiddleware,
+  zValidator('query', historyQuerySchema),
+  async (c) => {
+    const assetId = c.req.param('id');
+    const { action, field, actor, from, to, page, limit } = c.req.valid('query');
+
+    try {
+      const userId = c.get('userId');
+      const asset = await loadAccessibleAsset(assetId, userId, 'read');
+
+      // Colleagues' IP addresses and user agents are only shown to those
+      // who manage the organization's members
+      const includeOrigin = asset.organizationId
+        ? await canAccessAsset(userId, asset, 'member:manage')
+        : true;
+
+      const { entries, total } = await listAssetHistory(assetId, {
+        action,
+        field,
+        actorId: actor,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+      }, { limit, offset: (page - 1) * limit }, includeOrigin);
+
+      const totalPages = Math.ceil(total / limit);
+
+      return c.json({
+        success: true,
+        data: entries,
+        pagination: {
+          page,
+          limit,
+          total,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get asset history error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch asset history'
+      });
+    }
+  }
+);
+
+/**
+ * GET /:id/as-of?date= - The asset as it was at a past moment
+ */
+const getAssetAsOfRoute = app.get(
+  '/:id/as-of',
+  authMiddleware,
+  zValidator('query', asOfQuerySchema),
+  async (c) => {
+    const assetId = c.req.param('id');
+    const at = new Date(c.req.valid('query').date);
+
+    try {
+      const asset = await loadAccessibleAsset(assetId, c.get('userId'), 'read');
+
+      if (at < asset.createdAt) {
+        throw new HTTPException(404, {
+          message: 'Asset did not exist at this date'
+        });
+      }
+
+      const state = await reconstructAssetState(asset, at);
+
+      return c.json({
+        success: true,
+        data: {
+          asOf: at.toISOString(),
+          asset: { ...state, createdAt: asset.createdAt },
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get asset as-of error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to reconstruct asset'
+      });
+    }
+  }
+);
+
+/**
+ * POST /:id/revert - Restore fields to the values they had before a recorded
+ * change. The revert is itself recorded in the history.
+ */
+const revertAssetRoute = app.post(
+  '/:id/revert',
+  authMiddleware,
+  zValidator('json', revertSchema),
+  async (c) => {
+    const assetId = c.req.param('id');
+    const { historyId, fields, reason } = c.req.valid('json');
+    const db = getDatabase();
+
+    try {
+      const asset = await loadAccessibleAsset(assetId, c.get('userId'), 'update');
+
+      if (asset.deletedAt) {
+        throw new HTTPException(409, {
+          message: 'Restore the asset before reverting changes'
+        });
+      }
+
+      const changeSet = await getChangeSet(assetId, historyId);
+      if (changeSet.length === 0) {
+        throw new HTTPException(404, {
+          message: 'History entry not found'
+        });
+      }
+
+      const revertible = changeSet.filter((entry) =>
+        entry.fieldChanged && (REVERTIBLE_FIELDS as string[]).includes(entry.fieldChanged)
+      );
+      const selected = fields
+        ? revertible.filter((entry) => fields.includes(entry.fieldChanged!))
+        : revertible;
+
+      const unknownFields = (fields ?? []).filter((field) => !revertible.some((entry) => entry.fieldChanged === field));
+      if (unknownFields.length > 0 || selected.length === 0) {
+        throw new HTTPException(400, {
+          message: unknownFields.length > 0
+            ? `Fields not revertible from this change: ${unknownFields.join(', ')}`
+            : 'This change has no revertible fields'
+        });
+      }
+
+      const restored = Object.fromEntries(selected.map((entry) => [
+        entry.fieldChanged!,
+        deserializeHistoryValue(entry.fieldChanged!, entry.oldValue),
+      ])) as Partial<Asset>;
+
+      const context = getAuditContext(c, reason);
+      if (!context.reason) {
+        context.reason = `Revert of change ${historyId}`;
+      }
+
+      const revertedAsset = await db.transaction(async (tx) => {
+        // Diff against the row as it is when the revert applies
+        const [current] = await tx.select(assetColumns)
+          .from(assets)
+          .where(and(eq(assets.id, assetId), isNull(assets.deletedAt)))
+          .for('update');
+
+        if (!current) {
+          throw new HTTPException(409, {
+            message: 'Restore the asset before reverting changes'
+          });
+        }
+
+        const [updated] = await tx.update(assets)
+          .set({
+            ...restored,
+            updatedAt: new Date(),
+          })
+          .where(eq(assets.id, assetId))
+          .returning(assetColumns);
+
+        await recordAssetChanges(tx, 'reverted', current, updated, context);
+        return updated;
+      });
+
+      return c.json({
+        success: true,
+        message: 'Asset reverted successfully',
+        data: {
+          asset: revertedAsset,
+          revertedFields: Object.keys(restored),
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Revert asset error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to revert asset'
+      });
+    }
+  }
+);
+
+// Combine all routes
+const assetHistoryRoutes = app
+  .route('/', getAssetHistoryRoute)
+  .route('/', getAssetAsOfRoute)
+  .route('/', revertAssetRoute);
+
+export default assetHistoryRoutes;
+export type AssetHistoryRoutesType = typeof assetHistoryRoutes;
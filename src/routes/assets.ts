@@ -16,12 +16,29 @@ import {
   userOrganizations,
   assetCategories
 } from '../lib/db.js';
-import { eq, and, desc, asc, ilike, sql, isNull } from 'drizzle-orm';
+import { eq, and, desc, ilike, sql, isNull, isNotNull, type SQLWrapper } from 'drizzle-orm';
 import { authMiddleware } from '../middleware/auth.js';
+import { getPortfolioValuation } from '../lib/valuation/portfolio.js';
+import { getMarketVelocityStats } from '../lib/market-data/velocity.js';
+import { getNormalizationDictionary, normalizeRecord } from '../lib/normalization/dictionary.js';
+import { resolveReportingCurrency, normalizeCurrency } from '../lib/fx/rates.js';
+import { loadCpiTable, adjustPurchaseCost } from '../lib/inflation/cpi.js';
+import { getAuditContext, recordAssetCreated, recordAssetChanges } from '../lib/assets/history.js';
+import { purgeAsset, purgeAtSql } from '../lib/assets/trash.js';
+import { buildAssetSearch, assetColumns } from '../lib/assets/search.js';
+import { encodeCursor, decodeCursor, cursorValue, keysetCondition, keysetOrderBy } from '../lib/pagination.js';
+import {
+  getActiveMemberships,
+  getActiveMembership,
+  accessibleAssetsCondition,
+  canAccessAsset,
+  roleAllowsAssetAction
+} from '../lib/organizations/access.js';
 import { 
   insertAssetSchema, 
   selectAssetSchema, 
-  updateAssetSchema 
+  updateAssetSchema,
+  currencyCodeValidation
 } from '../lib/validation/schemas.js';
 
 const app = new Hono();
@@ -51,11 +68,17 @@ const createAssetSchema = insertAssetSchema.pick({
   specifications: true,
   tags: true,
   notes: true,
+}).extend({
+  // Why the change is made, recorded in the asset history
+  reason: z.string().max(1000).optional(),
 });
 
 // Enhanced asset search schema
 const searchAssetsSchema = z.object({
-  query: z.string().optional(),
+  // Full-text search over name, description, brand, model, serial number, tags and notes
+  query: z.string().max(200).optional(),
+  // Match the last word of `query` as a prefix (search-as-you-type), on by default
+  prefix: z.enum(['true', 'false']).optional().transform((value) => value !== 'false'),
   categoryId: z.string().uuid().optional(),
   status: z.enum(['active', 'sold', 'archived', 'damaged', 'lost']).optional(),
   condition: z.enum(['new', 'excellent', 'good', 'fair', 'poor']).optional(),
@@ -66,12 +89,26 @@ const searchAssetsSchema = z.object({
   purchaseDateTo: z.string().datetime().optional(),
   organizationId: z.string().uuid().optional(),
   assignedTo: z.string().uuid().optional(),
+  // Only assets flagged for review (e.g. their assignee left the organization)
+  needsReview: z.enum(['true', 'false']).optional().transform((value) => value === undefined ? undefined : value === 'true'),
   page: z.coerce.number().min(1).default(1),
   limit: z.coerce.number().min(1).max(100).default(20),
-  sortBy: z.enum(['name', 'purchaseDate', 'createdAt', 'purchasePrice', 'brand', 'condition']).default('createdAt'),
+  // Opaque `nextCursor` of a previous page; takes precedence over `page`
+  cursor: z.string().max(1000).optional(),
+  // Count matching assets in cursor mode (page mode always counts)
+  includeTotal: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+  // `relevance` needs a `query` (falls back to createdAt without one)
+  sortBy: z.enum(['name', 'purchaseDate', 'createdAt', 'purchasePrice', 'brand', 'condition', 'relevance']).default('createdAt'),
   sortOrder: z.enum(['asc', 'desc']).default('desc'),
 });
 
+// Statistics scope and currency to report totals in (defaults to the
+// organization's or the user's reporting currency)
+const assetStatsQuerySchema = z.object({
+  organizationId: z.string().uuid().optional(),
+  currency: currencyCodeValidation.optional(),
+});
+
 // Asset image upload schema
 const assetImageSchema = z.object({
   assetId: z.string().uuid(),
@@ -81,6 +118,18 @@ const assetImageSchema = z.object({
     size: z.number().optional(),
     alt: z.string().optional(),
   })).min(1).max(10),
+  reason: z.string().max(1000).optional(),
+});
+
+// Trash listing scope (every accessible organization by default)
+const trashQuerySchema = z.object({
+  organizationId: z.string().uuid().optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const restoreAssetSchema = z.object({
+  reason: z.string().max(1000).optional(),
 });
 
 /**
@@ -91,9 +140,10 @@ const listAssetsRoute = app.get(
   authMiddleware,
   zValidator('query', searchAssetsSchema),
   async (c) => {
-    const user = c.get('user');
+    const userId = c.get('userId');
     const { 
       query: searchQuery, 
+      prefix,
       categoryId, 
       status,
       condition,
@@ -104,34 +154,36 @@ const listAssetsRoute = app.get(
       purchaseDateTo,
       organizationId,
       assignedTo,
+      needsReview,
       page, 
       limit, 
+      cursor: encodedCursor,
+      includeTotal,
       sortBy, 
       sortOrder 
     } = c.req.valid('query');
 
     const db = getDatabase();
 
+    const cursor = encodedCursor ? decodeCursor(encodedCursor) : null;
+    if (encodedCursor && (!cursor || cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder)) {
+      throw new HTTPException(400, { 
+        message: 'Invalid cursor for this sort order' 
+      });
+    }
+
     try {
       // Build where conditions
       const whereConditions = [];
       
       // User can only see their own assets or organization assets they have access to
-      if (user.type === 'personal') {
-        whereConditions.push(eq(assets.userId, user.id));
-      } else {
-        // For professional users, show assets from organizations they belong to
-        whereConditions.push(eq(assets.userId, user.id));
-      }
+      const memberships = await getActiveMemberships(userId);
+      whereConditions.push(accessibleAssetsCondition(userId, memberships));
 
-      // Text search on name and description
-      if (searchQuery) {
-        whereConditions.push(
-          sql`(
-            ${assets.name} ILIKE ${`%${searchQuery}%`} OR 
-            ${assets.description} ILIKE ${`%${searchQuery}%`}
-          )`
-        );
+      // Full-text search
+      const search = searchQuery ? buildAssetSearch(searchQuery, { prefix }) : null;
+      if (search) {
+        whereConditions.push(search.condition);
       }
 
       // Filters
@@ -165,36 +217,47 @@ const listAssetsRoute = app.get(
       if (assignedTo) {
         whereConditions.push(eq(assets.assignedTo, assignedTo));
       }
+      if (needsReview !== undefined) {
+        whereConditions.push(needsReview ? isNotNull(assets.reviewFlaggedAt) : isNull(assets.reviewFlaggedAt));
+      }
 
       // Exclude soft deleted assets
       whereConditions.push(isNull(assets.deletedAt));
 
-      // Pagination
-      const offset = (page - 1) * limit;
-
-      // Sort order - use proper column references
-      let orderBy;
+      // Sort key, with the ID as tie-breaker so pages are stable
+      let sortKey: SQLWrapper;
       switch (sortBy) {
         case 'name':
-          orderBy = sortOrder === 'desc' ? desc(assets.name) : asc(assets.name);
+          sortKey = assets.name;
           break;
         case 'purchaseDate':
-          orderBy = sortOrder === 'desc' ? desc(assets.purchaseDate) : asc(assets.purchaseDate);
+          sortKey = assets.purchaseDate;
           break;
         case 'purchasePrice':
-          orderBy = sortOrder === 'desc' ? desc(assets.purchasePrice) : asc(assets.purchasePrice);
+          sortKey = assets.purchasePrice;
           break;
         case 'brand':
-          orderBy = sortOrder === 'desc' ? desc(assets.brand) : asc(assets.brand);
+          sortKey = assets.brand;
           break;
         case 'condition':
-          orderBy = sortOrder === 'desc' ? desc(assets.condition) : asc(assets.condition);
+          sortKey = assets.condition;
+          break;
+        case 'relevance':
+          // Without a search there is no rank: newest first
+          sortKey = search ? search.rank : assets.createdAt;
           break;
         default:
-          orderBy = sortOrder === 'desc' ? desc(assets.createdAt) : asc(assets.createdAt);
+          sortKey = assets.createdAt;
       }
 
-      // Execute query
+      // Cursor mode starts after the cursor's row, page mode skips whole pages
+      const filterCondition = and(...whereConditions);
+      const pageCondition = cursor
+        ? and(filterCondition, keysetCondition(sortKey, assets.id, cursor))
+        : filterCondition;
+      const offset = cursor ? 0 : (page - 1) * limit;
+
+      // Execute query (one extra row tells whether there is a next page)
       const assetsResult = await db.select({
         id: assets.id,
         name: assets.name,
@@ -208,6 +271,9 @@ const listAssetsRoute = app.get(
         purchaseCurrency: assets.purchaseCurrency,
         images: assets.images,
         tags: assets.tags,
+        assignedTo: assets.assignedTo,
+        reviewFlaggedAt: assets.reviewFlaggedAt,
+        reviewReason: assets.reviewReason,
         createdAt: assets.createdAt,
         updatedAt: assets.updatedAt,
         owner: {
@@ -215,33 +281,67 @@ const listAssetsRoute = app.get(
           firstName: users.firstName,
           lastName: users.lastName,
           email: users.email,
-        }
+        },
+        // Relevance and highlights when searching
+        ...(search ? {
+          search: {
+            rank: search.rank,
+            name: search.highlightedName,
+            snippet: search.snippet,
+          },
+        } : {}),
+        sortValue: cursorValue(sortKey),
       })
       .from(assets)
       .leftJoin(users, eq(assets.userId, users.id))
-      .where(and(...whereConditions))
-      .orderBy(orderBy)
-      .limit(limit)
+      .where(pageCondition)
+      .orderBy(...keysetOrderBy(sortKey, assets.id, sortOrder))
+      .limit(limit + 1)
       .offset(offset);
 
-      // Get total count for pagination
-      const countResult = await db.select({ count: sql<number>`count(*)` })
-        .from(assets)
-        .where(and(...whereConditions));
+      const hasNext = assetsResult.length > limit;
+      const pageRows = assetsResult.slice(0, limit);
+      const lastRow = pageRows[pageRows.length - 1];
+      const nextCursor = hasNext && lastRow
+        ? encodeCursor({ sortBy, sortOrder, value: lastRow.sortValue, id: lastRow.id })
+        : null;
+      const data = pageRows.map(({ sortValue, ...asset }) => asset);
+
+      // Get total count (always in page mode, on request in cursor mode)
+      let total: number | null = null;
+      if (!cursor || includeTotal) {
+        const countResult = await db.select({ count: sql<number>`count(*)` })
+          .from(assets)
+          .where(filterCondition);
+        total = Number(countResult[0]?.count || 0);
+      }
 
-      const total = countResult[0]?.count || 0;
-      const totalPages = Math.ceil(total / limit);
+      if (cursor) {
+        return c.json({
+          success: true,
+          data,
+          pagination: {
+            limit,
+            total,
+            hasNext,
+            nextCursor,
+          },
+        });
+      }
+
+      const totalPages = Math.ceil((total ?? 0) / limit);
 
       return c.json({
         success: true,
-        data: assetsResult,
+        data,
         pagination: {
           page,
           limit,
           total,
           totalPages,
-          hasNext: page < totalPages,
+          hasNext,
           hasPrev: page > 1,
+          nextCursor,
         },
       });
 
@@ -254,6 +354,191 @@ const listAssetsRoute = app.get(
   }
 );
 
+/**
+ * GET /stats - Get Asset Statistics for User
+ *
+ * Covers every asset the user can report on (report:read), or a single
+ * organization's assets when `organizationId` is given.
+ */
+const getAssetStatsRoute = app.get(
+  '/stats',
+  authMiddleware,
+  zValidator('query', assetStatsQuerySchema),
+  async (c) => {
+    const userId = c.get('userId');
+    const { organizationId, currency: requestedCurrency } = c.req.valid('query');
+    const db = getDatabase();
+
+    try {
+      let scope;
+      if (organizationId) {
+        const membership = await getActiveMembership(userId, organizationId);
+        if (!membership || !roleAllowsAssetAction(membership.role, 'report:read')) {
+          throw new HTTPException(403, { 
+            message: 'Access denied' 
+          });
+        }
+        scope = eq(assets.organizationId, organizationId);
+      } else {
+        scope = accessibleAssetsCondition(userId, await getActiveMemberships(userId), 'report:read');
+      }
+
+      const currency = requestedCurrency ?? await resolveReportingCurrency({ userId, organizationId });
+
+      // Get comprehensive asset statistics
+      const statsQueries = await Promise.all([
+        // Total assets count
+        db.select({ count: sql<number>`count(*)` })
+          .from(assets)
+          .where(and(scope, isNull(assets.deletedAt))),
+        
+        // Assets by status
+        db.select({ 
+          status: assets.status, 
+          count: sql<number>`count(*)` 
+        })
+          .from(assets)
+          .where(and(scope, isNull(assets.deletedAt)))
+          .groupBy(assets.status),
+        
+        // Estimated portfolio value from the latest valuations
+        getPortfolioValuation(scope, currency),
+        
+        // Assets by condition
+        db.select({ 
+          condition: assets.condition, 
+          count: sql<number>`count(*)` 
+        })
+          .from(assets)
+          .where(and(scope, isNull(assets.deletedAt)))
+          .groupBy(assets.condition),
+        
+        // Recent assets (last 30 days)
+        db.select({ count: sql<number>`count(*)` })
+          .from(assets)
+          .where(and(
+            scope, 
+            isNull(assets.deletedAt),
+            sql`${assets.createdAt} >= NOW() - INTERVAL '30 days'`
+          )),
+      ]);
+
+      const [totalCount, statusBreakdown, portfolio, conditionBreakdown, recentCount] = statsQueries;
+
+      return c.json({
+        success: true,
+        data: {
+          totalAssets: totalCount[0]?.count || 0,
+          currency,
+          totalValue: portfolio.estimatedValue.realistic,
+          portfolio,
+          recentAssets: recentCount[0]?.count || 0,
+          breakdown: {
+            byStatus: statusBreakdown.reduce((acc, item) => {
+              if (item.status) acc[item.status] = item.count;
+              return acc;
+            }, {} as Record<string, number>),
+            byCondition: conditionBreakdown.reduce((acc, item) => {
+              if (item.condition) acc[item.condition] = item.count;
+              return acc;
+            }, {} as Record<string, number>),
+          },
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get asset stats error:', error);
+      throw new HTTPException(500, { 
+        message: 'Failed to fetch asset statistics' 
+      });
+    }
+  }
+);
+
+/**
+ * GET /trash - Deleted assets the user may restore, with the date each one
+ * will be purged
+ */
+const listTrashRoute = app.get(
+  '/trash',
+  authMiddleware,
+  zValidator('query', trashQuerySchema),
+  async (c) => {
+    const userId = c.get('userId');
+    const { organizationId, page, limit } = c.req.valid('query');
+    const db = getDatabase();
+
+    try {
+      const memberships = await getActiveMemberships(userId, organizationId);
+      if (organizationId && memberships.length === 0) {
+        throw new HTTPException(403, { 
+          message: 'Access denied' 
+        });
+      }
+
+      // Restoring needs the same permission as deleting
+      const whereCondition = and(
+        accessibleAssetsCondition(userId, memberships, 'delete'),
+        organizationId ? eq(assets.organizationId, organizationId) : undefined,
+        isNotNull(assets.deletedAt)
+      );
+
+      const [trashed, [total]] = await Promise.all([
+        db.select({
+          id: assets.id,
+          name: assets.name,
+          brand: assets.brand,
+          model: assets.model,
+          status: assets.status,
+          organizationId: assets.organizationId,
+          userId: assets.userId,
+          deletedAt: assets.deletedAt,
+          purgeAt: purgeAtSql,
+        })
+        .from(assets)
+        .leftJoin(organizations, eq(assets.organizationId, organizations.id))
+        .where(whereCondition)
+        .orderBy(desc(assets.deletedAt))
+        .limit(limit)
+        .offset((page - 1) * limit),
+        db.select({ count: sql<number>`count(*)` })
+          .from(assets)
+          .where(whereCondition),
+      ]);
+
+      const totalCount = Number(total?.count ?? 0);
+      const totalPages = Math.ceil(totalCount / limit);
+
+      return c.json({
+        success: true,
+        data: trashed,
+        pagination: {
+          page,
+          limit,
+          total: totalCount,
+          totalPages,
+          hasNext: page < totalPages,
+          hasPrev: page > 1,
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('List trash error:', error);
+      throw new HTTPException(500, { 
+        message: 'Failed to fetch trash' 
+      });
+    }
+  }
+);
+
 /**
  * GET /:id - Get Asset Details
  */
@@ -262,7 +547,7 @@ const getAssetRoute = app.get(
   authMiddleware,
   async (c) => {
     const assetId = c.req.param('id');
-    const user = c.get('user');
+    const userId = c.get('userId');
     const db = getDatabase();
 
     try {
@@ -288,6 +573,8 @@ const getAssetRoute = app.get(
         location: assets.location,
         accountingDepreciationPeriod: assets.accountingDepreciationPeriod,
         assetTag: assets.assetTag,
+        reviewFlaggedAt: assets.reviewFlaggedAt,
+        reviewReason: assets.reviewReason,
         actualSalePrice: assets.actualSalePrice,
         actualSaleDate: assets.actualSaleDate,
         images: assets.images,
@@ -320,16 +607,39 @@ const getAssetRoute = app.get(
 
       const asset = assetResult[0];
 
-      // Check access permissions - user can only access their own assets
-      if (asset.userId !== user.id) {
+      // Check access permissions - own assets or any role in the asset's organization
+      if (!await canAccessAsset(userId, asset, 'read')) {
         throw new HTTPException(403, { 
           message: 'Access denied' 
         });
       }
 
+      const purchaseCurrency = normalizeCurrency(asset.purchaseCurrency);
+
+      // How quickly comparable items sell on the market
+      const [marketVelocity, cpi] = await Promise.all([
+        getMarketVelocityStats({
+          categoryId: asset.categoryId,
+          brand: asset.brand,
+          model: asset.model,
+        }),
+        loadCpiTable([purchaseCurrency]),
+      ]);
+
+      // Purchase price restated in today's money
+      const inflation = adjustPurchaseCost(cpi, {
+        price: parseFloat(asset.purchasePrice),
+        date: asset.purchaseDate,
+        area: purchaseCurrency,
+      });
+
       return c.json({
         success: true,
-        data: asset,
+        data: {
+          ...asset,
+          inflation,
+          marketVelocity,
+        },
       });
 
     } catch (error) {
@@ -353,11 +663,21 @@ const createAssetRoute = app.post(
   authMiddleware,
   zValidator('json', createAssetSchema),
   async (c) => {
-    const user = c.get('user');
-    const assetData = c.req.valid('json');
+    const userId = c.get('userId');
+    const { reason, ...assetData } = c.req.valid('json');
     const db = getDatabase();
 
     try {
+      // Organization assets can only be added by members whose role allows it
+      if (assetData.organizationId) {
+        const membership = await getActiveMembership(userId, assetData.organizationId);
+        if (!membership || !roleAllowsAssetAction(membership.role, 'create')) {
+          throw new HTTPException(403, { 
+            message: 'Access denied' 
+          });
+        }
+      }
+
       // Validate category exists
       const category = await db.select()
         .from(assetCategories)
@@ -370,21 +690,26 @@ const createAssetRoute = app.post(
         });
       }
 
+      // Canonical brand/model so the asset matches market data
+      const normalizedData = normalizeRecord(assetData, await getNormalizationDictionary());
+
       // Prepare asset data for insertion - let drizzle handle the types
       const assetInsertData = {
-        ...assetData,
-        userId: user.id,
+        ...normalizedData,
+        userId,
         status: 'active' as const,
-        createdBy: user.id,
+        createdBy: userId,
         purchaseDate: assetData.purchaseDate ? new Date(assetData.purchaseDate) : new Date(),
         plannedSaleDate: assetData.plannedSaleDate ? new Date(assetData.plannedSaleDate) : null,
         purchaseCurrency: assetData.purchaseCurrency || 'EUR',
       };
 
-      // Create asset
-      const newAsset = await db.insert(assets).values(assetInsertData).returning();
-
-      const asset = newAsset[0];
+      // Create asset and record it in the history
+      const asset = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(assets).values(assetInsertData).returning(assetColumns);
+        await recordAssetCreated(tx, created, getAuditContext(c, reason));
+        return created;
+      });
 
       return c.json({
         success: true,
@@ -414,46 +739,80 @@ const updateAssetRoute = app.put(
   zValidator('json', createAssetSchema.partial()),
   async (c) => {
     const assetId = c.req.param('id');
-    const user = c.get('user');
-    const updates = c.req.valid('json');
+    const userId = c.get('userId');
+    const { reason, ...updates } = c.req.valid('json');
     const db = getDatabase();
 
     try {
-      // Get current asset
-      const currentAsset = await db.select()
-        .from(assets)
-        .where(eq(assets.id, assetId))
-        .limit(1);
+      const dictionary = updates.brand !== undefined || updates.model !== undefined
+        ? await getNormalizationDictionary()
+        : null;
 
-      if (!currentAsset[0]) {
-        throw new HTTPException(404, { 
-          message: 'Asset not found' 
-        });
-      }
+      // Update asset and record the changed fields against the locked row
+      const updatedAsset = await db.transaction(async (tx) => {
+        const [asset] = await tx.select(assetColumns)
+          .from(assets)
+          .where(and(eq(assets.id, assetId), isNull(assets.deletedAt)))
+          .for('update');
 
-      const asset = currentAsset[0];
+        if (!asset) {
+          throw new HTTPException(404, { 
+            message: 'Asset not found' 
+          });
+        }
 
-      // Check permissions - user can only update their own assets
-      if (asset.userId !== user.id) {
-        throw new HTTPException(403, { 
-          message: 'Access denied' 
-        });
-      }
+        // Check permissions - owner, or a role allowed to modify organization assets
+        if (!await canAccessAsset(userId, asset, 'update')) {
+          throw new HTTPException(403, { 
+            message: 'Access denied' 
+          });
+        }
 
-      // Update asset
-      const updatedAsset = await db.update(assets)
-        .set({
-          ...updates,
-          purchaseDate: updates.purchaseDate ? new Date(updates.purchaseDate) : undefined,
-          updatedAt: new Date(),
-        })
-        .where(eq(assets.id, assetId))
-        .returning();
+        // Moving an asset between organizations takes it away from one and adds it to the other
+        if (updates.organizationId !== undefined && updates.organizationId !== asset.organizationId) {
+          const targetMembership = updates.organizationId
+            ? await getActiveMembership(userId, updates.organizationId)
+            : null;
+          const canAddToTarget = updates.organizationId
+            ? targetMembership !== null && roleAllowsAssetAction(targetMembership.role, 'create')
+            : asset.userId === userId;
+
+          if (!canAddToTarget || !await canAccessAsset(userId, asset, 'delete')) {
+            throw new HTTPException(403, { 
+              message: 'Access denied' 
+            });
+          }
+        }
+
+        // Normalize brand/model together with the stored values they depend on
+        const normalizedUpdates = dictionary
+          ? normalizeRecord({
+              ...updates,
+              brand: updates.brand !== undefined ? updates.brand : asset.brand,
+              model: updates.model !== undefined ? updates.model : asset.model,
+              specifications: updates.specifications !== undefined ? updates.specifications : asset.specifications,
+            }, dictionary)
+          : updates;
+
+        const [updated] = await tx.update(assets)
+          .set({
+            ...normalizedUpdates,
+            purchaseDate: updates.purchaseDate ? new Date(updates.purchaseDate) : undefined,
+            // A new assignment resolves a pending assignment review
+            ...(updates.assignedTo !== undefined && { reviewFlaggedAt: null, reviewReason: null }),
+            updatedAt: new Date(),
+          })
+          .where(eq(assets.id, assetId))
+          .returning(assetColumns);
+
+        await recordAssetChanges(tx, 'updated', asset, updated, getAuditContext(c, reason));
+        return updated;
+      });
 
       return c.json({
         success: true,
         message: 'Asset updated successfully',
-        data: updatedAsset[0],
+        data: updatedAsset,
       });
 
     } catch (error) {
@@ -477,38 +836,40 @@ const deleteAssetRoute = app.delete(
   authMiddleware,
   async (c) => {
     const assetId = c.req.param('id');
-    const user = c.get('user');
+    const userId = c.get('userId');
     const db = getDatabase();
 
     try {
-      // Get current asset
-      const currentAsset = await db.select()
-        .from(assets)
-        .where(eq(assets.id, assetId))
-        .limit(1);
+      // Soft delete asset and record it in the history against the locked row
+      await db.transaction(async (tx) => {
+        const [asset] = await tx.select(assetColumns)
+          .from(assets)
+          .where(and(eq(assets.id, assetId), isNull(assets.deletedAt)))
+          .for('update');
 
-      if (!currentAsset[0]) {
-        throw new HTTPException(404, { 
-          message: 'Asset not found' 
-        });
-      }
+        if (!asset) {
+          throw new HTTPException(404, { 
+            message: 'Asset not found' 
+          });
+        }
 
-      const asset = currentAsset[0];
+        // Check permissions - owner, or an organization owner or admin
+        if (!await canAccessAsset(userId, asset, 'delete')) {
+          throw new HTTPException(403, { 
+            message: 'Access denied' 
+          });
+        }
 
-      // Check permissions - user can only delete their own assets
-      if (asset.userId !== user.id) {
-        throw new HTTPException(403, { 
-          message: 'Access denied' 
-        });
-      }
+        const [deleted] = await tx.update(assets)
+          .set({ 
+            deletedAt: new Date(),
+            updatedAt: new Date(),
+          })
+          .where(eq(assets.id, assetId))
+          .returning(assetColumns);
 
-      // Soft delete asset
-      await db.update(assets)
-        .set({ 
-          deletedAt: new Date(),
-          updatedAt: new Date(),
-        })
-        .where(eq(assets.id, assetId));
+        await recordAssetChanges(tx, 'deleted', asset, deleted, getAuditContext(c));
+      });
 
       return c.json({
         success: true,
@@ -529,60 +890,117 @@ const deleteAssetRoute = app.delete(
 );
 
 /**
- * POST /:id/images - Upload Asset Images
+ * POST /:id/restore - Restore an Asset from the Trash
  */
-const uploadAssetImagesRoute = app.post(
-  '/:id/images',
+const restoreAssetRoute = app.post(
+  '/:id/restore',
+  authMiddleware,
+  zValidator('json', restoreAssetSchema),
+  async (c) => {
+    const assetId = c.req.param('id');
+    const userId = c.get('userId');
+    const { reason } = c.req.valid('json');
+    const db = getDatabase();
+
+    try {
+      const restoredAsset = await db.transaction(async (tx) => {
+        const [asset] = await tx.select(assetColumns)
+          .from(assets)
+          .where(and(eq(assets.id, assetId), isNotNull(assets.deletedAt)))
+          .for('update');
+
+        if (!asset) {
+          throw new HTTPException(404, { 
+            message: 'Asset not found in trash' 
+          });
+        }
+
+        if (!await canAccessAsset(userId, asset, 'delete')) {
+          throw new HTTPException(403, { 
+            message: 'Access denied' 
+          });
+        }
+
+        const [restored] = await tx.update(assets)
+          .set({ 
+            deletedAt: null,
+            updatedAt: new Date(),
+          })
+          .where(eq(assets.id, assetId))
+          .returning(assetColumns);
+
+        await recordAssetChanges(tx, 'restored', asset, restored, getAuditContext(c, reason));
+        return restored;
+      });
+
+      return c.json({
+        success: true,
+        message: 'Asset restored successfully',
+        data: restoredAsset,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+      
+      console.error('Restore asset error:', error);
+      throw new HTTPException(500, { 
+        message: 'Failed to restore asset' 
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /:id/permanent - Permanently Delete a Trashed Asset
+ *
+ * Removes the asset with its valuations, listings and history. Only assets
+ * already in the trash can be purged.
+ */
+const purgeAssetRoute = app.delete(
+  '/:id/permanent',
   authMiddleware,
-  zValidator('json', assetImageSchema.omit({ assetId: true })),
   async (c) => {
     const assetId = c.req.param('id');
-    const user = c.get('user');
-    const { images } = c.req.valid('json');
+    const userId = c.get('userId');
     const db = getDatabase();
 
     try {
-      // Get current asset
-      const currentAsset = await db.select()
+      const [asset] = await db.select()
         .from(assets)
-        .where(and(eq(assets.id, assetId), isNull(assets.deletedAt)))
+        .where(eq(assets.id, assetId))
         .limit(1);
 
-      if (!currentAsset[0]) {
+      if (!asset) {
         throw new HTTPException(404, { 
           message: 'Asset not found' 
         });
       }
 
-      const asset = currentAsset[0];
-
-      // Check permissions - user can only update their own assets
-      if (asset.userId !== user.id) {
+      if (!await canAccessAsset(userId, asset, 'delete')) {
         throw new HTTPException(403, { 
           message: 'Access denied' 
         });
       }
 
-      // Merge with existing images
-      const existingImages = (asset.images as any[]) || [];
-      const updatedImages = [...existingImages, ...images];
+      if (!asset.deletedAt) {
+        throw new HTTPException(409, { 
+          message: 'Move the asset to the trash before deleting it permanently' 
+        });
+      }
 
-      // Update asset with new images
-      const updatedAsset = await db.update(assets)
-        .set({
-          images: updatedImages,
-          updatedAt: new Date(),
-        })
-        .where(eq(assets.id, assetId))
-        .returning();
+      const removed = await purgeAsset(assetId);
+      if (!removed) {
+        throw new HTTPException(409, { 
+          message: 'Move the asset to the trash before deleting it permanently' 
+        });
+      }
 
       return c.json({
         success: true,
-        message: 'Images uploaded successfully',
-        data: {
-          assetId,
-          images: updatedImages,
-        },
+        message: 'Asset permanently deleted',
+        data: { removed },
       });
 
     } catch (error) {
@@ -590,92 +1008,81 @@ const uploadAssetImagesRoute = app.post(
         throw error;
       }
       
-      console.error('Upload asset images error:', error);
+      console.error('Purge asset error:', error);
       throw new HTTPException(500, { 
-        message: 'Failed to upload images' 
+        message: 'Failed to permanently delete asset' 
       });
     }
   }
 );
 
 /**
- * GET /stats - Get Asset Statistics for User
+ * POST /:id/images - Upload Asset Images
  */
-const getAssetStatsRoute = app.get(
-  '/stats',
+const uploadAssetImagesRoute = app.post(
+  '/:id/images',
   authMiddleware,
+  zValidator('json', assetImageSchema.omit({ assetId: true })),
   async (c) => {
-    const user = c.get('user');
+    const assetId = c.req.param('id');
+    const userId = c.get('userId');
+    const { images, reason } = c.req.valid('json');
     const db = getDatabase();
 
     try {
-      // Get comprehensive asset statistics
-      const statsQueries = await Promise.all([
-        // Total assets count
-        db.select({ count: sql<number>`count(*)` })
-          .from(assets)
-          .where(and(eq(assets.userId, user.id), isNull(assets.deletedAt))),
-        
-        // Assets by status
-        db.select({ 
-          status: assets.status, 
-          count: sql<number>`count(*)` 
-        })
-          .from(assets)
-          .where(and(eq(assets.userId, user.id), isNull(assets.deletedAt)))
-          .groupBy(assets.status),
-        
-        // Total purchase value
-        db.select({ 
-          totalValue: sql<number>`SUM(CAST(${assets.purchasePrice} AS DECIMAL))` 
-        })
-          .from(assets)
-          .where(and(eq(assets.userId, user.id), isNull(assets.deletedAt))),
-        
-        // Assets by condition
-        db.select({ 
-          condition: assets.condition, 
-          count: sql<number>`count(*)` 
-        })
+      // Update asset with new images and record them in the history against the locked row
+      const updatedImages = await db.transaction(async (tx) => {
+        const [asset] = await tx.select(assetColumns)
           .from(assets)
-          .where(and(eq(assets.userId, user.id), isNull(assets.deletedAt)))
-          .groupBy(assets.condition),
-        
-        // Recent assets (last 30 days)
-        db.select({ count: sql<number>`count(*)` })
-          .from(assets)
-          .where(and(
-            eq(assets.userId, user.id), 
-            isNull(assets.deletedAt),
-            sql`${assets.createdAt} >= NOW() - INTERVAL '30 days'`
-          )),
-      ]);
+          .where(and(eq(assets.id, assetId), isNull(assets.deletedAt)))
+          .for('update');
 
-      const [totalCount, statusBreakdown, totalValue, conditionBreakdown, recentCount] = statsQueries;
+        if (!asset) {
+          throw new HTTPException(404, { 
+            message: 'Asset not found' 
+          });
+        }
+
+        // Check permissions - owner, or a role allowed to modify organization assets
+        if (!await canAccessAsset(userId, asset, 'update')) {
+          throw new HTTPException(403, { 
+            message: 'Access denied' 
+          });
+        }
+
+        // Merge with existing images
+        const existingImages = (asset.images as any[]) || [];
+        const mergedImages = [...existingImages, ...images];
+
+        const [updated] = await tx.update(assets)
+          .set({
+            images: mergedImages,
+            updatedAt: new Date(),
+          })
+          .where(eq(assets.id, assetId))
+          .returning(assetColumns);
+
+        await recordAssetChanges(tx, 'images_added', asset, updated, getAuditContext(c, reason));
+        return mergedImages;
+      });
 
       return c.json({
         success: true,
+        message: 'Images uploaded successfully',
         data: {
-          totalAssets: totalCount[0]?.count || 0,
-          totalValue: totalValue[0]?.totalValue || 0,
-          recentAssets: recentCount[0]?.count || 0,
-          breakdown: {
-            byStatus: statusBreakdown.reduce((acc, item) => {
-              if (item.status) acc[item.status] = item.count;
-              return acc;
-            }, {} as Record<string, number>),
-            byCondition: conditionBreakdown.reduce((acc, item) => {
-              if (item.condition) acc[item.condition] = item.count;
-              return acc;
-            }, {} as Record<string, number>),
-          },
+          assetId,
+          images: updatedImages,
         },
       });
 
     } catch (error) {
-      console.error('Get asset stats error:', error);
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+      
+      console.error('Upload asset images error:', error);
       throw new HTTPException(500, { 
-        message: 'Failed to fetch asset statistics' 
+        message: 'Failed to upload images' 
       });
     }
   }
@@ -686,9 +1093,12 @@ const assetRoutes = app
   .route('/', listAssetsRoute)
   .route('/', createAssetRoute)
   .route('/', getAssetStatsRoute)  // /stats must come before /:id
+  .route('/', listTrashRoute)  // /trash must come before /:id
   .route('/', getAssetRoute)
   .route('/', updateAssetRoute)
   .route('/', deleteAssetRoute)
+  .route('/', restoreAssetRoute)
+  .route('/', purgeAssetRoute)
   .route('/', uploadAssetImagesRoute);
 
 export default assetRoutes;
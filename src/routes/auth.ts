@@ -11,7 +11,7 @@ import { env } from 'hono/adapter';
 import { z } from 'zod';
 import { getDatabase } from '../lib/db.js';
 import { users, sessions, passwordResets } from '../lib/db.js';
-import { eq, and, gt } from 'drizzle-orm';
+import { eq, and, gt, isNull, sql } from 'drizzle-orm';
 import { 
   userRegistrationSchema, 
   userLoginSchema, 
@@ -19,8 +19,14 @@ import {
   passwordResetSchema,
   emailVerificationSchema
 } from '../lib/validation/index.js';
-import { hashPassword, verifyPassword, generateResetToken, generateVerificationToken } from '../lib/auth/passwords.js';
-import { generateTokenPair, verifyToken } from '../lib/auth/jwt.js';
+import { hashPassword, verifyPassword, generateResetToken } from '../lib/auth/passwords.js';
+import { generateTokenPair, generateEmailVerificationToken, verifyToken } from '../lib/auth/jwt.js';
+import {
+  findInvitationByToken,
+  invitationStatus,
+  normalizeInvitationEmail,
+  attachPendingInvitations
+} from '../lib/organizations/invitations.js';
 import type { HonoEnv } from '../lib/env.js';
 
 const app = new Hono<HonoEnv>();
@@ -32,7 +38,7 @@ const registerRoute = app.post(
   '/register',
   zValidator('json', userRegistrationSchema),
   async (c) => {
-    const { email, password, firstName, lastName, type } = c.req.valid('json');
+    const { email, password, firstName, lastName, type, invitationToken } = c.req.valid('json');
     const db = getDatabase();
 
     try {
@@ -48,11 +54,24 @@ const registerRoute = app.post(
         });
       }
 
+      // An invitation token proves the invitee received mail at this address
+      let emailVerifiedByInvitation = false;
+      if (invitationToken) {
+        const invitation = await findInvitationByToken(invitationToken);
+        if (
+          !invitation ||
+          invitationStatus(invitation.invitation) !== 'pending' ||
+          invitation.invitation.email !== normalizeInvitationEmail(email)
+        ) {
+          throw new HTTPException(400, { 
+            message: 'Invalid or expired invitation token' 
+          });
+        }
+        emailVerifiedByInvitation = true;
+      }
+
       // Hash password
       const passwordHash = await hashPassword(password);
-      
-      // Generate email verification token
-      const verificationToken = generateVerificationToken();
 
       // Create user
       const newUser = await db.insert(users).values({
@@ -61,7 +80,8 @@ const registerRoute = app.post(
         firstName,
         lastName,
         type,
-        emailVerified: false, // Will be verified later
+        emailVerified: emailVerifiedByInvitation, // Otherwise verified later
+        emailVerifiedAt: emailVerifiedByInvitation ? new Date() : null,
       }).returning({
         id: users.id,
         email: users.email,
@@ -73,6 +93,11 @@ const registerRoute = app.post(
 
       const user = newUser[0];
 
+      // Join every organization that invited this (verified) email
+      const joinedOrganizationIds = emailVerifiedByInvitation
+        ? await attachPendingInvitations(user.id, user.email)
+        : [];
+
       // Generate JWT tokens
       const { JWT_SECRET } = env<{ JWT_SECRET: string }>(c);
       if (!JWT_SECRET) {
@@ -86,6 +111,11 @@ const registerRoute = app.post(
         JWT_SECRET
       );
 
+      // Email verification token, for POST /verify-email
+      const verificationToken = emailVerifiedByInvitation
+        ? null
+        : await generateEmailVerificationToken(user.id, user.email, user.type, JWT_SECRET);
+
       // Store session in database
       await db.insert(sessions).values({
         userId: user.id,
@@ -101,6 +131,7 @@ const registerRoute = app.post(
           accessToken,
           refreshToken,
         },
+        joinedOrganizationIds,
         // In real app, send verification email instead of returning token
         verificationToken, // Remove this in production
       }, 201);
@@ -457,6 +488,72 @@ const passwordResetRoute = app.post(
   }
 );
 
+/**
+ * POST /verify-email - Verify the account's email and join every
+ * organization that invited it
+ */
+const verifyEmailRoute = app.post(
+  '/verify-email',
+  zValidator('json', emailVerificationSchema),
+  async (c) => {
+    const { token } = c.req.valid('json');
+    const db = getDatabase();
+
+    try {
+      const { JWT_SECRET } = env<{ JWT_SECRET: string }>(c);
+      if (!JWT_SECRET) {
+        throw new Error('JWT_SECRET not configured');
+      }
+
+      const payload = await verifyToken(token, JWT_SECRET).catch(() => null);
+      if (!payload || payload.tokenType !== 'email_verification') {
+        throw new HTTPException(400, { 
+          message: 'Invalid or expired verification token' 
+        });
+      }
+
+      // The token only verifies the email it was sent to
+      const [user] = await db.update(users)
+        .set({
+          emailVerified: true,
+          emailVerifiedAt: sql`COALESCE(${users.emailVerifiedAt}, now())`,
+          updatedAt: new Date(),
+        })
+        .where(and(
+          eq(users.id, payload.userId),
+          eq(users.email, payload.email),
+          isNull(users.deletedAt)
+        ))
+        .returning({ id: users.id, email: users.email });
+
+      if (!user) {
+        throw new HTTPException(400, { 
+          message: 'Invalid or expired verification token' 
+        });
+      }
+
+      // Join every organization that invited this (now verified) email
+      const joinedOrganizationIds = await attachPendingInvitations(user.id, user.email);
+
+      return c.json({
+        success: true,
+        message: 'Email verified successfully',
+        joinedOrganizationIds,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+      
+      console.error('Email verification error:', error);
+      throw new HTTPException(500, { 
+        message: 'Internal server error' 
+      });
+    }
+  }
+);
+
 /**
  * GET /me - Get Current User Profile
  */
@@ -536,6 +633,7 @@ const authRoutes = app
   .route('/', refreshTokenRoute)
   .route('/', passwordResetRequestRoute)
   .route('/', passwordResetRoute)
+  .route('/', verifyEmailRoute)
   .route('/', meRoute);
 
 export default authRoutes;
@@ -8,9 +8,12 @@ import { Hono } from 'hono';
 import { zValidator } from '@hono/zod-validator';
 import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
-import { eq, and, isNull, desc, asc } from 'drizzle-orm';
+import { eq, and, isNull, count, type SQLWrapper } from 'drizzle-orm';
 import { getDatabase, assetCategories } from '../lib/db.js';
 import { authMiddleware, requireUserType } from '../middleware/auth.js';
+import { parseDepreciationProfile } from '../lib/valuation/depreciation.js';
+import { getDerivedSeasonality } from '../lib/valuation/seasonality.js';
+import { encodeCursor, decodeCursor, cursorValue, keysetCondition, keysetOrderBy } from '../lib/pagination.js';
 import type { HonoEnv } from '../lib/env.js';
 
 const app = new Hono<HonoEnv>();
@@ -26,7 +29,9 @@ const createCategorySchema = z.object({
   depreciationProfile: z.object({
     curve_type: z.string(),
     annual_rate: z.number(),
-    factors: z.array(z.string())
+    factors: z.array(z.string()),
+    // Monthly price coefficients, January to December
+    seasonality: z.array(z.number().positive()).length(12).optional()
   }).optional(),
   marketplaces: z.array(z.string()).optional()
 });
@@ -39,7 +44,11 @@ const categoriesQuerySchema = z.object({
   sortBy: z.enum(['name', 'createdAt', 'sortOrder']).default('sortOrder'),
   sortOrder: z.enum(['asc', 'desc']).default('asc'),
   limit: z.coerce.number().min(1).max(100).default(50),
-  offset: z.coerce.number().min(0).default(0)
+  offset: z.coerce.number().min(0).default(0),
+  // Opaque `nextCursor` of a previous page; takes precedence over `offset`
+  cursor: z.string().max(1000).optional(),
+  // Count matching categories in cursor mode (offset mode always counts)
+  includeTotal: z.enum(['true', 'false']).optional().transform((value) => value === 'true')
 });
 
 /**
@@ -49,9 +58,16 @@ const listCategoriesRoute = app.get(
   '/categories',
   zValidator('query', categoriesQuerySchema),
   async (c) => {
-    const { parent, active, sortBy, sortOrder, limit, offset } = c.req.valid('query');
+    const { parent, active, sortBy, sortOrder, limit, offset, cursor: encodedCursor, includeTotal } = c.req.valid('query');
     const db = getDatabase();
 
+    const cursor = encodedCursor ? decodeCursor(encodedCursor) : null;
+    if (encodedCursor && (!cursor || cursor.sortBy !== sortBy || cursor.sortOrder !== sortOrder)) {
+      throw new HTTPException(400, {
+        message: 'Invalid cursor for this sort order'
+      });
+    }
+
     try {
       // Build where conditions
       const whereConditions = [];
@@ -68,22 +84,25 @@ const listCategoriesRoute = app.get(
         whereConditions.push(eq(assetCategories.isActive, false));
       }
 
-      // Build order by
-      let orderByClause;
-      const sortDirection = sortOrder === 'desc' ? desc : asc;
-      
+      // Sort key, with the ID as tie-breaker so pages are stable
+      let sortKey: SQLWrapper;
       switch (sortBy) {
         case 'name':
-          orderByClause = sortDirection(assetCategories.name);
+          sortKey = assetCategories.name;
           break;
         case 'createdAt':
-          orderByClause = sortDirection(assetCategories.createdAt);
+          sortKey = assetCategories.createdAt;
           break;
         default:
-          orderByClause = sortDirection(assetCategories.sortOrder);
+          sortKey = assetCategories.sortOrder;
       }
 
-      // Execute query
+      const filterCondition = whereConditions.length > 0 ? and(...whereConditions) : undefined;
+      const pageCondition = cursor
+        ? and(filterCondition, keysetCondition(sortKey, assetCategories.id, cursor))
+        : filterCondition;
+
+      // Execute query (one extra row tells whether there is more)
       const categories = await db.select({
         id: assetCategories.id,
         name: assetCategories.name,
@@ -96,30 +115,37 @@ const listCategoriesRoute = app.get(
         isActive: assetCategories.isActive,
         sortOrder: assetCategories.sortOrder,
         createdAt: assetCategories.createdAt,
-        updatedAt: assetCategories.updatedAt
+        updatedAt: assetCategories.updatedAt,
+        sortValue: cursorValue(sortKey)
       })
       .from(assetCategories)
-      .where(whereConditions.length > 0 ? and(...whereConditions) : undefined)
-      .orderBy(orderByClause)
-      .limit(limit)
-      .offset(offset);
-
-      // Get total count for pagination  
-      const totalResult = await db.select()
-        .from(assetCategories)
-        .where(whereConditions.length > 0 ? and(...whereConditions) : undefined);
-
-      const total = totalResult.length;
+      .where(pageCondition)
+      .orderBy(...keysetOrderBy(sortKey, assetCategories.id, sortOrder))
+      .limit(limit + 1)
+      .offset(cursor ? 0 : offset);
+
+      const hasMore = categories.length > limit;
+      const pageRows = categories.slice(0, limit);
+      const lastRow = pageRows[pageRows.length - 1];
+      const nextCursor = hasMore && lastRow
+        ? encodeCursor({ sortBy, sortOrder, value: lastRow.sortValue, id: lastRow.id })
+        : null;
+
+      // Get total count (always in offset mode, on request in cursor mode)
+      let total: number | null = null;
+      if (!cursor || includeTotal) {
+        const [totalResult] = await db.select({ count: count() })
+          .from(assetCategories)
+          .where(filterCondition);
+        total = totalResult?.count ?? 0;
+      }
 
       return c.json({
         success: true,
-        data: categories,
-        pagination: {
-          offset,
-          limit,
-          total,
-          hasMore: offset + limit < total
-        }
+        data: pageRows.map(({ sortValue, ...category }) => category),
+        pagination: cursor
+          ? { limit, total, hasMore, nextCursor }
+          : { offset, limit, total, hasMore, nextCursor }
       });
 
     } catch (error) {
@@ -177,6 +203,60 @@ const getCategoryRoute = app.get(
   }
 );
 
+/**
+ * GET /categories/:id/seasonality - Configured, derived and effective monthly coefficients
+ */
+const getCategorySeasonalityRoute = app.get(
+  '/categories/:id/seasonality',
+  async (c) => {
+    const categoryId = c.req.param('id');
+
+    if (!categoryId || !z.string().uuid().safeParse(categoryId).success) {
+      throw new HTTPException(400, {
+        message: 'Invalid category ID'
+      });
+    }
+
+    const db = getDatabase();
+
+    try {
+      const [category] = await db.select({ depreciationProfile: assetCategories.depreciationProfile })
+        .from(assetCategories)
+        .where(eq(assetCategories.id, categoryId))
+        .limit(1);
+
+      if (!category) {
+        throw new HTTPException(404, {
+          message: 'Category not found'
+        });
+      }
+
+      const configured = parseDepreciationProfile(category.depreciationProfile).seasonality ?? null;
+      const derived = await getDerivedSeasonality(categoryId);
+
+      return c.json({
+        success: true,
+        data: {
+          configured,
+          derived,
+          effective: configured ?? derived.coefficients,
+          source: configured ? 'configured' : derived.coefficients ? 'market_data' : 'none'
+        }
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get category seasonality error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch category seasonality'
+      });
+    }
+  }
+);
+
 /**
  * POST /categories - Create new category (Admin only)
  */
@@ -414,6 +494,7 @@ const deleteCategoryRoute = app.delete(
 const categoryRoutes = app
   .route('/', listCategoriesRoute)
   .route('/', getCategoryRoute)
+  .route('/', getCategorySeasonalityRoute)
   .route('/', createCategoryRoute)
   .route('/', updateCategoryRoute)
   .route('/', deleteCategoryRoute);
@@ -0,0 +1,192 @@
+/**
+ * FX Routes
+ *
+ * Hono RPC routes for the stored exchange rates: loading rate files (admin),
+ * browsing rates and converting amounts at a given date
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { authMiddleware, requireAdmin } from '../middleware/auth.js';
+import { importFxRates, type FxImportFormat } from '../lib/fx/import.js';
+import { listFxRates, loadFxConverter, startOfUtcDay } from '../lib/fx/rates.js';
+import { currencyCodeValidation } from '../lib/validation/schemas.js';
+import type { HonoEnv } from '../lib/env.js';
+
+const app = new Hono<HonoEnv>();
+
+const importQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).optional(),
+  dryRun: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+  base: currencyCodeValidation.optional(),
+  source: z.string().min(1).max(50).optional(),
+});
+
+const ratesQuerySchema = z.object({
+  base: currencyCodeValidation,
+  quote: currencyCodeValidation,
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  limit: z.coerce.number().min(1).max(1000).default(100),
+});
+
+const convertQuerySchema = z.object({
+  amount: z.coerce.number().finite(),
+  from: currencyCodeValidation,
+  to: currencyCodeValidation,
+  date: z.string().datetime().optional(),
+});
+
+/**
+ * Infer the import format from the request content type
+ */
+const formatFromContentType = (contentType: string | undefined): FxImportFormat | undefined => {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mimeType === 'text/csv') return 'csv';
+  if (mimeType === 'application/x-ndjson' || mimeType === 'application/ndjson') return 'ndjson';
+  return undefined;
+};
+
+/**
+ * POST /rates/import - Load daily rates from a CSV or NDJSON file (admin)
+ */
+const importRatesRoute = app.post(
+  '/rates/import',
+  authMiddleware,
+  requireAdmin,
+  zValidator('query', importQuerySchema),
+  async (c) => {
+    const { format: formatParam, dryRun, base, source } = c.req.valid('query');
+    const format = formatParam ?? formatFromContentType(c.req.header('Content-Type'));
+
+    if (!format) {
+      throw new HTTPException(415, {
+        message: 'Send text/csv or application/x-ndjson, or set the format query parameter'
+      });
+    }
+
+    try {
+      const body = await c.req.text();
+
+      if (body.trim() === '') {
+        throw new HTTPException(400, {
+          message: 'Rate file is empty'
+        });
+      }
+
+      const report = await importFxRates(body, format, { dryRun, base, source: source ?? 'manual' });
+
+      return c.json({
+        success: true,
+        message: dryRun ? 'FX rates validated' : 'FX rates imported',
+        data: report,
+      }, dryRun ? 200 : 201);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      if (error instanceof RangeError) {
+        throw new HTTPException(413, {
+          message: error.message
+        });
+      }
+
+      console.error('Import FX rates error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to import FX rates'
+      });
+    }
+  }
+);
+
+/**
+ * GET /rates - Stored daily rates of a currency pair, newest first
+ */
+const listRatesRoute = app.get(
+  '/rates',
+  authMiddleware,
+  zValidator('query', ratesQuerySchema),
+  async (c) => {
+    const { base, quote, from, to, limit } = c.req.valid('query');
+
+    try {
+      const rates = await listFxRates({
+        base,
+        quote,
+        from: from ? new Date(from) : undefined,
+        to: to ? new Date(to) : undefined,
+        limit,
+      });
+
+      return c.json({
+        success: true,
+        data: rates,
+      });
+
+    } catch (error) {
+      console.error('List FX rates error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch FX rates'
+      });
+    }
+  }
+);
+
+/**
+ * GET /convert - Convert an amount at the rate of a given day (default today)
+ */
+const convertRoute = app.get(
+  '/convert',
+  authMiddleware,
+  zValidator('query', convertQuerySchema),
+  async (c) => {
+    const { amount, from, to, date } = c.req.valid('query');
+    const at = date ? new Date(date) : new Date();
+
+    try {
+      const fx = await loadFxConverter([from, to]);
+      const rate = fx.rate(from, to, at);
+
+      if (rate === null) {
+        throw new HTTPException(404, {
+          message: `No exchange rate available from ${from} to ${to}`
+        });
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          amount,
+          from,
+          to,
+          date: startOfUtcDay(at),
+          rate,
+          converted: Math.round(amount * rate * 100) / 100,
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Convert currency error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to convert amount'
+      });
+    }
+  }
+);
+
+// Combine all routes
+const fxRoutes = app
+  .route('/', importRatesRoute)
+  .route('/', listRatesRoute)
+  .route('/', convertRoute);
+
+export default fxRoutes;
+export type FxRoutesType = typeof fxRoutes;
@@ -0,0 +1,232 @@
+/**
+ * Invitation Routes
+ *
+ * Hono RPC routes for the invited side of organization invitations: looking
+ * up an invitation from its token, accepting or declining it and listing the
+ * invitations addressed to the current user
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { getDatabase, users } from '../lib/db.js';
+import { authMiddleware } from '../middleware/auth.js';
+import {
+  findInvitationByToken,
+  acceptInvitation,
+  declineInvitation,
+  listPendingInvitations,
+  invitationStatus,
+  normalizeInvitationEmail
+} from '../lib/organizations/invitations.js';
+import type { HonoEnv } from '../lib/env.js';
+
+const app = new Hono<HonoEnv>();
+
+const invitationTokenSchema = z.object({
+  token: z.string().min(1, 'Invitation token is required'),
+});
+
+/**
+ * Pending invitation for a token, or 400 when the token is unknown, used,
+ * revoked or expired
+ */
+const loadPendingInvitation = async (token: string) => {
+  const result = await findInvitationByToken(token);
+
+  if (!result || invitationStatus(result.invitation) !== 'pending') {
+    throw new HTTPException(400, {
+      message: 'Invalid or expired invitation token'
+    });
+  }
+
+  return result;
+};
+
+/**
+ * GET / - Pending invitations addressed to the current user's email, once
+ * that email is verified
+ */
+const listMyInvitationsRoute = app.get(
+  '/',
+  authMiddleware,
+  async (c) => {
+    const userId = c.get('userId');
+    const db = getDatabase();
+
+    try {
+      const [user] = await db.select({
+        email: users.email,
+        emailVerified: users.emailVerified,
+      })
+      .from(users)
+      .where(eq(users.id, userId))
+      .limit(1);
+
+      // Anyone can register an unclaimed address; only its verified owner
+      // gets to see who invited it
+      if (!user?.emailVerified) {
+        throw new HTTPException(403, {
+          message: 'Verify your email address to see your invitations'
+        });
+      }
+
+      const invitations = await listPendingInvitations({ email: user.email });
+
+      return c.json({
+        success: true,
+        data: invitations,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+      console.error('List my invitations error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch invitations'
+      });
+    }
+  }
+);
+
+/**
+ * POST /lookup - Invitation details for a token (no authentication, used by
+ * the sign-up and join pages)
+ */
+const lookupInvitationRoute = app.post(
+  '/lookup',
+  zValidator('json', invitationTokenSchema),
+  async (c) => {
+    const { token } = c.req.valid('json');
+
+    try {
+      const result = await findInvitationByToken(token);
+
+      if (!result) {
+        throw new HTTPException(404, {
+          message: 'Invitation not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          email: result.invitation.email,
+          role: result.invitation.role,
+          status: invitationStatus(result.invitation),
+          expiresAt: result.invitation.expiresAt,
+          organization: result.organization,
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Lookup invitation error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch invitation'
+      });
+    }
+  }
+);
+
+/**
+ * POST /accept - Join the organization with the invited role. The invitation
+ * must be addressed to the current user's email.
+ */
+const acceptInvitationRoute = app.post(
+  '/accept',
+  authMiddleware,
+  zValidator('json', invitationTokenSchema),
+  async (c) => {
+    const { token } = c.req.valid('json');
+    const user = c.get('user');
+
+    try {
+      const { invitation, organization } = await loadPendingInvitation(token);
+
+      if (invitation.email !== normalizeInvitationEmail(user.email)) {
+        throw new HTTPException(403, {
+          message: 'This invitation was sent to another email address'
+        });
+      }
+
+      if (!await acceptInvitation(invitation, c.get('userId'))) {
+        throw new HTTPException(400, {
+          message: 'Invalid or expired invitation token'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Invitation accepted successfully',
+        data: {
+          organization,
+          role: invitation.role,
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Accept invitation error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to accept invitation'
+      });
+    }
+  }
+);
+
+/**
+ * POST /decline - Decline an invitation (the token is proof enough, so people
+ * without an account can decline too)
+ */
+const declineInvitationRoute = app.post(
+  '/decline',
+  zValidator('json', invitationTokenSchema),
+  async (c) => {
+    const { token } = c.req.valid('json');
+
+    try {
+      const { invitation } = await loadPendingInvitation(token);
+
+      if (!await declineInvitation(invitation.id)) {
+        throw new HTTPException(400, {
+          message: 'Invalid or expired invitation token'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Invitation declined',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Decline invitation error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to decline invitation'
+      });
+    }
+  }
+);
+
+// Combine all routes
+const invitationRoutes = app
+  .route('/', listMyInvitationsRoute)
+  .route('/', lookupInvitationRoute)
+  .route('/', acceptInvitationRoute)
+  .route('/', declineInvitationRoute);
+
+export default invitationRoutes;
+export type InvitationRoutesType = typeof invitationRoutes;
@@ -0,0 +1,334 @@
+/**
+ * Market Data Routes
+ *
+ * Hono RPC routes for feeding marketplace observations into market_data_points
+ * (bulk imports, source syncs and outlier review)
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { authMiddleware, requireAdmin } from '../middleware/auth.js';
+import { importMarketData, type ImportFormat } from '../lib/market-data/import.js';
+import { syncMarketDataSource, syncAllMarketDataSources, getMarketDataSourceHealth } from '../lib/market-data/sync.js';
+import { runOutlierDetection, listOutliers, reviewOutlier } from '../lib/market-data/outliers.js';
+import type { HonoEnv } from '../lib/env.js';
+
+const app = new Hono<HonoEnv>();
+
+const importQuerySchema = z.object({
+  format: z.enum(['csv', 'ndjson']).optional(),
+  dryRun: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+  sourceId: z.string().uuid('Invalid source ID').optional(),
+  categoryId: z.string().uuid('Invalid category ID').optional(),
+});
+
+const syncQuerySchema = z.object({
+  force: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+});
+
+const sourceParamSchema = z.object({
+  id: z.string().uuid('Invalid source ID'),
+});
+
+const outlierListQuerySchema = z.object({
+  status: z.enum(['flagged', 'confirmed', 'dismissed']).optional(),
+  categoryId: z.string().uuid('Invalid category ID').optional(),
+  brand: z.string().max(100).optional(),
+  model: z.string().max(100).optional(),
+  page: z.coerce.number().min(1).default(1),
+  limit: z.coerce.number().min(1).max(100).default(20),
+});
+
+const outlierDetectSchema = z.object({
+  categoryId: z.string().uuid('Invalid category ID').optional(),
+});
+
+const outlierReviewSchema = z.object({
+  decision: z.enum(['exclude', 'include', 'reset']),
+});
+
+const pointParamSchema = z.object({
+  id: z.string().uuid('Invalid market data point ID'),
+});
+
+/**
+ * Infer the import format from the request content type
+ */
+const formatFromContentType = (contentType: string | undefined): ImportFormat | undefined => {
+  const mimeType = contentType?.split(';')[0].trim().toLowerCase();
+  if (mimeType === 'text/csv') return 'csv';
+  if (mimeType === 'application/x-ndjson' || mimeType === 'application/ndjson') return 'ndjson';
+  return undefined;
+};
+
+/**
+ * POST /import - Bulk import market data points from CSV or NDJSON
+ */
+const importMarketDataRoute = app.post(
+  '/import',
+  authMiddleware,
+  requireAdmin,
+  zValidator('query', importQuerySchema),
+  async (c) => {
+    const { format: formatParam, dryRun, sourceId, categoryId } = c.req.valid('query');
+    const format = formatParam ?? formatFromContentType(c.req.header('Content-Type'));
+
+    if (!format) {
+      throw new HTTPException(415, {
+        message: 'Send text/csv or application/x-ndjson, or set the format query parameter'
+      });
+    }
+
+    try {
+      const body = await c.req.text();
+
+      if (body.trim() === '') {
+        throw new HTTPException(400, {
+          message: 'Import file is empty'
+        });
+      }
+
+      const report = await importMarketData(body, format, { dryRun, sourceId, categoryId });
+
+      return c.json({
+        success: true,
+        message: dryRun ? 'Market data import validated' : 'Market data imported',
+        data: report,
+      }, dryRun ? 200 : 201);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      if (error instanceof RangeError) {
+        throw new HTTPException(413, {
+          message: error.message
+        });
+      }
+
+      console.error('Import market data error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to import market data'
+      });
+    }
+  }
+);
+
+/**
+ * GET /sources - Market data sources with adapter and sync health
+ */
+const getSourcesRoute = app.get(
+  '/sources',
+  authMiddleware,
+  requireAdmin,
+  async (c) => {
+    try {
+      const sources = await getMarketDataSourceHealth();
+
+      return c.json({
+        success: true,
+        data: sources,
+      });
+
+    } catch (error) {
+      console.error('Get market data sources error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch market data sources'
+      });
+    }
+  }
+);
+
+/**
+ * POST /sources/sync - Sync every active source
+ */
+const syncAllSourcesRoute = app.post(
+  '/sources/sync',
+  authMiddleware,
+  requireAdmin,
+  zValidator('query', syncQuerySchema),
+  async (c) => {
+    const { force } = c.req.valid('query');
+
+    try {
+      const results = await syncAllMarketDataSources({ force });
+
+      return c.json({
+        success: true,
+        message: 'Market data sync completed',
+        data: results,
+      });
+
+    } catch (error) {
+      console.error('Sync market data sources error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to sync market data sources'
+      });
+    }
+  }
+);
+
+/**
+ * POST /sources/:id/sync - Sync one source (force=true ignores backoff and inactive flag)
+ */
+const syncSourceRoute = app.post(
+  '/sources/:id/sync',
+  authMiddleware,
+  requireAdmin,
+  zValidator('param', sourceParamSchema),
+  zValidator('query', syncQuerySchema),
+  async (c) => {
+    const { id } = c.req.valid('param');
+    const { force } = c.req.valid('query');
+
+    try {
+      const result = await syncMarketDataSource(id, { force });
+
+      if (!result) {
+        throw new HTTPException(404, {
+          message: 'Market data source not found'
+        });
+      }
+
+      return c.json({
+        success: result.status !== 'failed',
+        message: result.message ?? 'Market data sync completed',
+        data: result,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Sync market data source error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to sync market data source'
+      });
+    }
+  }
+);
+
+/**
+ * GET /outliers - Flagged and reviewed market data points, most extreme first
+ */
+const getOutliersRoute = app.get(
+  '/outliers',
+  authMiddleware,
+  requireAdmin,
+  zValidator('query', outlierListQuerySchema),
+  async (c) => {
+    const filters = c.req.valid('query');
+
+    try {
+      const { points, total } = await listOutliers(filters);
+      const totalPages = Math.ceil(total / filters.limit);
+
+      return c.json({
+        success: true,
+        data: points,
+        pagination: {
+          page: filters.page,
+          limit: filters.limit,
+          total,
+          totalPages,
+          hasNext: filters.page < totalPages,
+          hasPrev: filters.page > 1,
+        },
+      });
+
+    } catch (error) {
+      console.error('Get market data outliers error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch market data outliers'
+      });
+    }
+  }
+);
+
+/**
+ * POST /outliers/detect - Run outlier detection (one category or all)
+ */
+const detectOutliersRoute = app.post(
+  '/outliers/detect',
+  authMiddleware,
+  requireAdmin,
+  zValidator('query', outlierDetectSchema),
+  async (c) => {
+    const { categoryId } = c.req.valid('query');
+
+    try {
+      const summary = await runOutlierDetection(categoryId ? [categoryId] : undefined);
+
+      return c.json({
+        success: true,
+        message: 'Outlier detection completed',
+        data: summary,
+      });
+
+    } catch (error) {
+      console.error('Detect market data outliers error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to run outlier detection'
+      });
+    }
+  }
+);
+
+/**
+ * PATCH /outliers/:id - Override the outlier status of a point
+ */
+const reviewOutlierRoute = app.patch(
+  '/outliers/:id',
+  authMiddleware,
+  requireAdmin,
+  zValidator('param', pointParamSchema),
+  zValidator('json', outlierReviewSchema),
+  async (c) => {
+    const { id } = c.req.valid('param');
+    const { decision } = c.req.valid('json');
+    const userId = c.get('userId');
+
+    try {
+      const point = await reviewOutlier(id, decision, userId);
+
+      if (!point) {
+        throw new HTTPException(404, {
+          message: 'Market data point not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Outlier review saved',
+        data: point,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Review market data outlier error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to save outlier review'
+      });
+    }
+  }
+);
+
+// Combine all routes
+const marketDataRoutes = app
+  .route('/', importMarketDataRoute)
+  .route('/', getSourcesRoute)
+  .route('/', syncAllSourcesRoute)
+  .route('/', syncSourceRoute)
+  .route('/', getOutliersRoute)
+  .route('/', detectOutliersRoute)
+  .route('/', reviewOutlierRoute);
+
+export default marketDataRoutes;
+export type MarketDataRoutesType = typeof marketDataRoutes;
@@ -0,0 +1,56 @@
+/**
+ * Market Routes
+ *
+ * Hono RPC routes for market analytics derived from market_data_points
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { authMiddleware } from '../middleware/auth.js';
+import { getMarketVelocityStats, DEFAULT_VELOCITY_MONTHS } from '../lib/market-data/velocity.js';
+import type { HonoEnv } from '../lib/env.js';
+
+const app = new Hono<HonoEnv>();
+
+const velocityQuerySchema = z.object({
+  categoryId: z.string().uuid('Invalid category ID'),
+  brand: z.string().max(100).optional(),
+  model: z.string().max(100).optional(),
+  months: z.coerce.number().int().min(1).max(60).default(DEFAULT_VELOCITY_MONTHS),
+});
+
+/**
+ * GET /velocity - Days-to-sell, sell-through rate and price ratio for a category, brand and model
+ */
+const getVelocityRoute = app.get(
+  '/velocity',
+  authMiddleware,
+  zValidator('query', velocityQuerySchema),
+  async (c) => {
+    const { categoryId, brand, model, months } = c.req.valid('query');
+
+    try {
+      const velocity = await getMarketVelocityStats({ categoryId, brand, model }, months);
+
+      return c.json({
+        success: true,
+        data: velocity,
+      });
+
+    } catch (error) {
+      console.error('Get market velocity error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch market velocity'
+      });
+    }
+  }
+);
+
+// Combine all routes
+const marketRoutes = app
+  .route('/', getVelocityRoute);
+
+export default marketRoutes;
+export type MarketRoutesType = typeof marketRoutes;
@@ -0,0 +1,896 @@
+/**
+ * Organization Routes
+ *
+ * Hono RPC routes for managing organizations: creating them (the creator
+ * becomes owner), reading, updating, soft deleting, listing the
+ * organizations the current user belongs to, inviting members and managing
+ * them (roles, suspension, removal, ownership transfer)
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { eq, and, asc, isNull, sql } from 'drizzle-orm';
+import { getDatabase, organizations, userOrganizations, users } from '../lib/db.js';
+import { authMiddleware, requirePermission, requireOrganizationAccess } from '../middleware/auth.js';
+import { getActiveMembership } from '../lib/organizations/access.js';
+import { permissionsFor, type OrganizationRole } from '../lib/organizations/permissions.js';
+import { generateOrganizationSlug, isSlugTaken } from '../lib/organizations/slugs.js';
+import {
+  createInvitation,
+  listPendingInvitations,
+  revokeInvitation,
+  normalizeInvitationEmail
+} from '../lib/organizations/invitations.js';
+import {
+  getMember,
+  isActiveMember,
+  isLastActiveOwner,
+  listMembers,
+  removeMember,
+  transferOwnership,
+  type Member
+} from '../lib/organizations/members.js';
+import { getAuditContext } from '../lib/assets/history.js';
+import {
+  organizationCreateSchema,
+  organizationUpdateSchema,
+  organizationMemberInviteSchema
+} from '../lib/validation/index.js';
+import type { HonoEnv } from '../lib/env.js';
+
+const app = new Hono<HonoEnv>();
+
+const organizationParamSchema = z.object({
+  organizationId: z.string().uuid('Invalid organization ID'),
+});
+
+const invitationParamSchema = organizationParamSchema.extend({
+  invitationId: z.string().uuid('Invalid invitation ID'),
+});
+
+const memberParamSchema = organizationParamSchema.extend({
+  userId: z.string().uuid('Invalid user ID'),
+});
+
+const roleSchema = z.enum(['owner', 'admin', 'manager', 'viewer', 'accountant']);
+
+const membersQuerySchema = z.object({
+  includeFormer: z.enum(['true', 'false']).optional().transform((value) => value === 'true'),
+});
+
+const memberRoleSchema = z.object({
+  role: roleSchema,
+});
+
+const memberStatusSchema = z.object({
+  isActive: z.boolean(),
+});
+
+// Member to hand the removed member's assigned assets to; they are flagged
+// for review when omitted
+const memberRemovalSchema = z.object({
+  reassignTo: z.string().uuid('Invalid user ID').optional(),
+});
+
+const ownershipTransferSchema = z.object({
+  userId: z.string().uuid('Invalid user ID'),
+  // Role the current owner keeps afterwards
+  previousOwnerRole: roleSchema.exclude(['owner']).default('admin'),
+});
+
+// Postgres unique_violation
+const isUniqueViolation = (error: unknown) =>
+  typeof error === 'object' && error !== null && (error as { code?: string }).code === '23505';
+
+/**
+ * Current member targeted by a management action, checking that the acting
+ * role may manage them. Whether an owner remains is checked in the
+ * transaction making the change (isLastActiveOwner).
+ */
+const loadManagedMember = async (
+  organizationId: string,
+  userId: string,
+  actorRole: OrganizationRole,
+  options: { newRole?: OrganizationRole } = {}
+): Promise<Member> => {
+  const member = await getMember(organizationId, userId);
+
+  if (!member || member.leftAt) {
+    throw new HTTPException(404, {
+      message: 'Member not found'
+    });
+  }
+
+  if ((member.role === 'owner' || options.newRole === 'owner') && actorRole !== 'owner') {
+    throw new HTTPException(403, {
+      message: 'Only owners can manage owners'
+    });
+  }
+
+  return member;
+};
+
+/**
+ * Check that assets can be handed to `reassignTo`: an active member other
+ * than the one leaving
+ */
+const assertReassignable = async (organizationId: string, leavingUserId: string, reassignTo?: string) => {
+  if (!reassignTo) return;
+
+  if (reassignTo === leavingUserId || !isActiveMember(await getMember(organizationId, reassignTo))) {
+    throw new HTTPException(400, {
+      message: 'Assets can only be reassigned to another active member'
+    });
+  }
+};
+
+// Active members of an organization
+const memberCount = sql<number>`(
+  SELECT count(*)::int FROM ${userOrganizations}
+  WHERE ${userOrganizations.organizationId} = ${organizations.id}
+    AND ${userOrganizations.isActive} = true
+    AND ${userOrganizations.leftAt} IS NULL
+)`;
+
+/**
+ * GET / - List the organizations the current user is an active member of
+ */
+const listMyOrganizationsRoute = app.get(
+  '/',
+  authMiddleware,
+  async (c) => {
+    const userId = c.get('userId');
+    const db = getDatabase();
+
+    try {
+      const memberships = await db.select({
+        id: organizations.id,
+        name: organizations.name,
+        slug: organizations.slug,
+        description: organizations.description,
+        logo: organizations.logo,
+        industry: organizations.industry,
+        size: organizations.size,
+        role: userOrganizations.role,
+        joinedAt: userOrganizations.joinedAt,
+        memberCount,
+      })
+      .from(userOrganizations)
+      .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
+      .where(and(
+        eq(userOrganizations.userId, userId),
+        eq(userOrganizations.isActive, true),
+        isNull(userOrganizations.leftAt),
+        isNull(organizations.deletedAt)
+      ))
+      .orderBy(asc(organizations.name));
+
+      return c.json({
+        success: true,
+        data: memberships,
+      });
+
+    } catch (error) {
+      console.error('List organizations error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch organizations'
+      });
+    }
+  }
+);
+
+/**
+ * GET /:idOrSlug - Get an organization by ID or slug (members only)
+ */
+const getOrganizationRoute = app.get(
+  '/:idOrSlug',
+  authMiddleware,
+  async (c) => {
+    const idOrSlug = c.req.param('idOrSlug');
+    const userId = c.get('userId');
+    const db = getDatabase();
+
+    try {
+      const lookup = z.string().uuid().safeParse(idOrSlug).success
+        ? eq(organizations.id, idOrSlug)
+        : eq(organizations.slug, idOrSlug.toLowerCase());
+
+      const [organization] = await db.select({
+        id: organizations.id,
+        name: organizations.name,
+        slug: organizations.slug,
+        description: organizations.description,
+        logo: organizations.logo,
+        website: organizations.website,
+        industry: organizations.industry,
+        size: organizations.size,
+        address: organizations.address,
+        settings: organizations.settings,
+        createdAt: organizations.createdAt,
+        updatedAt: organizations.updatedAt,
+        memberCount,
+      })
+      .from(organizations)
+      .where(and(lookup, isNull(organizations.deletedAt)))
+      .limit(1);
+
+      if (!organization) {
+        throw new HTTPException(404, {
+          message: 'Organization not found'
+        });
+      }
+
+      const membership = await getActiveMembership(userId, organization.id);
+      if (!membership) {
+        throw new HTTPException(403, {
+          message: 'Access denied to this organization'
+        });
+      }
+
+      return c.json({
+        success: true,
+        data: {
+          ...organization,
+          role: membership.role,
+          permissions: permissionsFor(membership.role),
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get organization error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch organization'
+      });
+    }
+  }
+);
+
+/**
+ * POST / - Create an organization with the current user as owner
+ */
+const createOrganizationRoute = app.post(
+  '/',
+  authMiddleware,
+  zValidator('json', organizationCreateSchema),
+  async (c) => {
+    const userId = c.get('userId');
+    const { slug: requestedSlug, ...organizationData } = c.req.valid('json');
+    const db = getDatabase();
+
+    try {
+      if (requestedSlug && await isSlugTaken(requestedSlug)) {
+        throw new HTTPException(409, {
+          message: 'Organization with this slug already exists'
+        });
+      }
+
+      const slug = requestedSlug ?? await generateOrganizationSlug(organizationData.name);
+
+      const organization = await db.transaction(async (tx) => {
+        const [created] = await tx.insert(organizations)
+          .values({
+            ...organizationData,
+            slug,
+            settings: organizationData.settings ?? {},
+          })
+          .returning();
+
+        await tx.insert(userOrganizations).values({
+          userId,
+          organizationId: created.id,
+          role: 'owner',
+          isActive: true,
+        });
+
+        return created;
+      });
+
+      return c.json({
+        success: true,
+        message: 'Organization created successfully',
+        data: {
+          ...organization,
+          role: 'owner' as const,
+          permissions: permissionsFor('owner'),
+        },
+      }, 201);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw new HTTPException(409, {
+          message: 'Organization with this slug already exists'
+        });
+      }
+
+      console.error('Create organization error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to create organization'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /:organizationId - Update an organization (org:update)
+ */
+const updateOrganizationRoute = app.put(
+  '/:organizationId',
+  authMiddleware,
+  zValidator('param', organizationParamSchema),
+  requirePermission('org:update'),
+  zValidator('json', organizationUpdateSchema),
+  async (c) => {
+    const { organizationId } = c.req.valid('param');
+    const { settings, ...updates } = c.req.valid('json');
+    const db = getDatabase();
+
+    try {
+      const [current] = await db.select({
+        slug: organizations.slug,
+        settings: organizations.settings,
+      })
+      .from(organizations)
+      .where(and(eq(organizations.id, organizationId), isNull(organizations.deletedAt)))
+      .limit(1);
+
+      if (!current) {
+        throw new HTTPException(404, {
+          message: 'Organization not found'
+        });
+      }
+
+      if (updates.slug && updates.slug !== current.slug && await isSlugTaken(updates.slug)) {
+        throw new HTTPException(409, {
+          message: 'Organization with this slug already exists'
+        });
+      }
+
+      const [organization] = await db.update(organizations)
+        .set({
+          ...updates,
+          // Settings are merged so a partial update keeps the other keys
+          ...(settings !== undefined && {
+            settings: { ...(current.settings as Record<string, unknown> | null), ...settings },
+          }),
+          updatedAt: new Date(),
+        })
+        .where(eq(organizations.id, organizationId))
+        .returning();
+
+      return c.json({
+        success: true,
+        message: 'Organization updated successfully',
+        data: organization,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+      if (isUniqueViolation(error)) {
+        throw new HTTPException(409, {
+          message: 'Organization with this slug already exists'
+        });
+      }
+
+      console.error('Update organization error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to update organization'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /:organizationId - Soft delete an organization (org:delete)
+ */
+const deleteOrganizationRoute = app.delete(
+  '/:organizationId',
+  authMiddleware,
+  zValidator('param', organizationParamSchema),
+  requirePermission('org:delete'),
+  async (c) => {
+    const { organizationId } = c.req.valid('param');
+    const db = getDatabase();
+
+    try {
+      const [organization] = await db.update(organizations)
+        .set({
+          deletedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(and(eq(organizations.id, organizationId), isNull(organizations.deletedAt)))
+        .returning({ id: organizations.id });
+
+      if (!organization) {
+        throw new HTTPException(404, {
+          message: 'Organization not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Organization deleted successfully',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Delete organization error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to delete organization'
+      });
+    }
+  }
+);
+
+/**
+ * GET /:organizationId/invitations - Pending invitations (member:invite)
+ */
+const listInvitationsRoute = app.get(
+  '/:organizationId/invitations',
+  authMiddleware,
+  zValidator('param', organizationParamSchema),
+  requirePermission('member:invite'),
+  async (c) => {
+    const { organizationId } = c.req.valid('param');
+
+    try {
+      const invitations = await listPendingInvitations({ organizationId });
+
+      return c.json({
+        success: true,
+        data: invitations,
+      });
+
+    } catch (error) {
+      console.error('List invitations error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch invitations'
+      });
+    }
+  }
+);
+
+/**
+ * POST /:organizationId/invitations - Invite someone by email (member:invite).
+ * Re-inviting an email replaces its pending invitation.
+ */
+const createInvitationRoute = app.post(
+  '/:organizationId/invitations',
+  authMiddleware,
+  zValidator('param', organizationParamSchema),
+  requirePermission('member:invite'),
+  zValidator('json', organizationMemberInviteSchema),
+  async (c) => {
+    const { organizationId } = c.req.valid('param');
+    const { email, role } = c.req.valid('json');
+    const userId = c.get('userId');
+    const db = getDatabase();
+
+    try {
+      // Only owners can bring in other owners
+      if (role === 'owner' && c.get('userRole') !== 'owner') {
+        throw new HTTPException(403, {
+          message: 'Only owners can invite owners'
+        });
+      }
+
+      const [existingMember] = await db.select({ id: userOrganizations.id })
+        .from(userOrganizations)
+        .innerJoin(users, eq(userOrganizations.userId, users.id))
+        .where(and(
+          eq(userOrganizations.organizationId, organizationId),
+          isNull(userOrganizations.leftAt),
+          sql`lower(${users.email}) = ${normalizeInvitationEmail(email)}`
+        ))
+        .limit(1);
+
+      if (existingMember) {
+        throw new HTTPException(409, {
+          message: 'This user is already a member of the organization'
+        });
+      }
+
+      const { invitation, token } = await createInvitation({
+        organizationId,
+        email,
+        role,
+        invitedBy: userId,
+      });
+
+      return c.json({
+        success: true,
+        message: 'Invitation created successfully',
+        data: {
+          id: invitation.id,
+          email: invitation.email,
+          role: invitation.role,
+          expiresAt: invitation.expiresAt,
+          createdAt: invitation.createdAt,
+        },
+        // In real app, email the invitation link instead of returning the token
+        invitationToken: token, // Remove this in production
+      }, 201);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Create invitation error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to create invitation'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /:organizationId/invitations/:invitationId - Revoke a pending invitation (member:invite)
+ */
+const revokeInvitationRoute = app.delete(
+  '/:organizationId/invitations/:invitationId',
+  authMiddleware,
+  zValidator('param', invitationParamSchema),
+  requirePermission('member:invite'),
+  async (c) => {
+    const { organizationId, invitationId } = c.req.valid('param');
+
+    try {
+      if (!await revokeInvitation(organizationId, invitationId)) {
+        throw new HTTPException(404, {
+          message: 'Pending invitation not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Invitation revoked successfully',
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Revoke invitation error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to revoke invitation'
+      });
+    }
+  }
+);
+
+/**
+ * GET /:organizationId/members - Members with their role and status (member:read)
+ */
+const listMembersRoute = app.get(
+  '/:organizationId/members',
+  authMiddleware,
+  zValidator('param', organizationParamSchema),
+  requirePermission('member:read'),
+  zValidator('query', membersQuerySchema),
+  async (c) => {
+    const { organizationId } = c.req.valid('param');
+    const { includeFormer } = c.req.valid('query');
+
+    try {
+      const members = await listMembers(organizationId, includeFormer);
+
+      return c.json({
+        success: true,
+        data: members,
+      });
+
+    } catch (error) {
+      console.error('List members error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch members'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /:organizationId/members/:userId/role - Change a member's role (member:manage)
+ */
+const updateMemberRoleRoute = app.put(
+  '/:organizationId/members/:userId/role',
+  authMiddleware,
+  zValidator('param', memberParamSchema),
+  requirePermission('member:manage'),
+  zValidator('json', memberRoleSchema),
+  async (c) => {
+    const { organizationId, userId } = c.req.valid('param');
+    const { role } = c.req.valid('json');
+    const db = getDatabase();
+
+    try {
+      await loadManagedMember(organizationId, userId, c.get('userRole'), { newRole: role });
+
+      const member = await db.transaction(async (tx) => {
+        if (role !== 'owner' && await isLastActiveOwner(tx, organizationId, userId)) {
+          throw new HTTPException(409, {
+            message: 'An organization must keep at least one owner'
+          });
+        }
+
+        const [updated] = await tx.update(userOrganizations)
+          .set({ role })
+          .where(and(
+            eq(userOrganizations.organizationId, organizationId),
+            eq(userOrganizations.userId, userId)
+          ))
+          .returning({
+            userId: userOrganizations.userId,
+            role: userOrganizations.role,
+            isActive: userOrganizations.isActive,
+          });
+
+        return updated;
+      });
+
+      return c.json({
+        success: true,
+        message: 'Member role updated successfully',
+        data: member,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Update member role error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to update member role'
+      });
+    }
+  }
+);
+
+/**
+ * PUT /:organizationId/members/:userId/status - Suspend or reactivate a member (member:manage)
+ */
+const updateMemberStatusRoute = app.put(
+  '/:organizationId/members/:userId/status',
+  authMiddleware,
+  zValidator('param', memberParamSchema),
+  requirePermission('member:manage'),
+  zValidator('json', memberStatusSchema),
+  async (c) => {
+    const { organizationId, userId } = c.req.valid('param');
+    const { isActive } = c.req.valid('json');
+    const db = getDatabase();
+
+    try {
+      if (!isActive && userId === c.get('userId')) {
+        throw new HTTPException(400, {
+          message: 'You cannot suspend yourself'
+        });
+      }
+
+      await loadManagedMember(organizationId, userId, c.get('userRole'));
+
+      const member = await db.transaction(async (tx) => {
+        if (!isActive && await isLastActiveOwner(tx, organizationId, userId)) {
+          throw new HTTPException(409, {
+            message: 'An organization must keep at least one owner'
+          });
+        }
+
+        const [updated] = await tx.update(userOrganizations)
+          .set({ isActive })
+          .where(and(
+            eq(userOrganizations.organizationId, organizationId),
+            eq(userOrganizations.userId, userId)
+          ))
+          .returning({
+            userId: userOrganizations.userId,
+            role: userOrganizations.role,
+            isActive: userOrganizations.isActive,
+          });
+
+        return updated;
+      });
+
+      return c.json({
+        success: true,
+        message: isActive ? 'Member reactivated successfully' : 'Member suspended successfully',
+        data: member,
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Update member status error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to update member status'
+      });
+    }
+  }
+);
+
+/**
+ * DELETE /:organizationId/members/:userId - Remove a member (member:manage).
+ * Their assigned assets go to `?reassignTo=` or are flagged for review.
+ */
+const removeMemberRoute = app.delete(
+  '/:organizationId/members/:userId',
+  authMiddleware,
+  zValidator('param', memberParamSchema),
+  requirePermission('member:manage'),
+  zValidator('query', memberRemovalSchema),
+  async (c) => {
+    const { organizationId, userId } = c.req.valid('param');
+    const { reassignTo } = c.req.valid('query');
+
+    try {
+      await loadManagedMember(organizationId, userId, c.get('userRole'));
+      await assertReassignable(organizationId, userId, reassignTo);
+
+      const assignedAssets = await removeMember(organizationId, userId, getAuditContext(c), reassignTo);
+      if (!assignedAssets) {
+        throw new HTTPException(409, {
+          message: 'An organization must keep at least one owner'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Member removed successfully',
+        data: { assignedAssets },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Remove member error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to remove member'
+      });
+    }
+  }
+);
+
+/**
+ * POST /:organizationId/leave - Leave an organization (any member; the last
+ * owner has to transfer ownership first)
+ */
+const leaveOrganizationRoute = app.post(
+  '/:organizationId/leave',
+  authMiddleware,
+  zValidator('param', organizationParamSchema),
+  requireOrganizationAccess(),
+  zValidator('json', memberRemovalSchema),
+  async (c) => {
+    const { organizationId } = c.req.valid('param');
+    const { reassignTo } = c.req.valid('json');
+    const userId = c.get('userId');
+
+    try {
+      await assertReassignable(organizationId, userId, reassignTo);
+
+      const assignedAssets = await removeMember(organizationId, userId, getAuditContext(c), reassignTo);
+      if (!assignedAssets) {
+        throw new HTTPException(409, {
+          message: 'Transfer ownership before leaving the organization'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'You left the organization',
+        data: { assignedAssets },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Leave organization error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to leave organization'
+      });
+    }
+  }
+);
+
+/**
+ * POST /:organizationId/transfer-ownership - Hand ownership to another active
+ * member (owners only); the current owner keeps `previousOwnerRole`
+ */
+const transferOwnershipRoute = app.post(
+  '/:organizationId/transfer-ownership',
+  authMiddleware,
+  zValidator('param', organizationParamSchema),
+  requireOrganizationAccess(),
+  zValidator('json', ownershipTransferSchema),
+  async (c) => {
+    const { organizationId } = c.req.valid('param');
+    const { userId: newOwnerId, previousOwnerRole } = c.req.valid('json');
+    const userId = c.get('userId');
+
+    try {
+      if (c.get('userRole') !== 'owner') {
+        throw new HTTPException(403, {
+          message: 'Only owners can transfer ownership'
+        });
+      }
+
+      if (newOwnerId === userId) {
+        throw new HTTPException(400, {
+          message: 'You already own this organization'
+        });
+      }
+
+      if (!isActiveMember(await getMember(organizationId, newOwnerId))) {
+        throw new HTTPException(400, {
+          message: 'Ownership can only be transferred to an active member'
+        });
+      }
+
+      if (!await transferOwnership(organizationId, userId, newOwnerId, previousOwnerRole)) {
+        throw new HTTPException(409, {
+          message: 'Membership changed during the transfer, please try again'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Ownership transferred successfully',
+        data: {
+          owner: newOwnerId,
+          previousOwner: { userId, role: previousOwnerRole },
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Transfer ownership error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to transfer ownership'
+      });
+    }
+  }
+);
+
+// Combine all routes
+const organizationRoutes = app
+  .route('/', listMyOrganizationsRoute)
+  .route('/', getOrganizationRoute)
+  .route('/', createOrganizationRoute)
+  .route('/', updateOrganizationRoute)
+  .route('/', deleteOrganizationRoute)
+  .route('/', listInvitationsRoute)
+  .route('/', createInvitationRoute)
+  .route('/', revokeInvitationRoute)
+  .route('/', listMembersRoute)
+  .route('/', updateMemberRoleRoute)
+  .route('/', updateMemberStatusRoute)
+  .route('/', removeMemberRoute)
+  .route('/', leaveOrganizationRoute)
+  .route('/', transferOwnershipRoute);
+
+export default organizationRoutes;
+export type OrganizationRoutesType = typeof organizationRoutes;
@@ -9,9 +9,14 @@ import { zValidator } from '@hono/zod-validator';
 import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod';
 import { getDatabase } from '../lib/db.js';
-import { users, assets, assetCategories } from '../lib/db.js';
-import { eq, and, desc, count, sql, isNull } from 'drizzle-orm';
+import { users, assets, assetCategories, organizations, userOrganizations } from '../lib/db.js';
+import { eq, and, asc, desc, count, isNull } from 'drizzle-orm';
 import { authMiddleware } from '../middleware/auth.js';
+import { getPortfolioValuation } from '../lib/valuation/portfolio.js';
+import { resolveReportingCurrency } from '../lib/fx/rates.js';
+import { currencyCodeValidation } from '../lib/validation/schemas.js';
+import { PERMISSIONS, PERSONAL_PERMISSIONS, permissionsFor } from '../lib/organizations/permissions.js';
+import { getActiveMemberships, accessibleAssetsCondition } from '../lib/organizations/access.js';
 
 const app = new Hono();
 
@@ -20,6 +25,12 @@ const updateProfileSchema = z.object({
   firstName: z.string().min(1).max(100).optional(),
   lastName: z.string().min(1).max(100).optional(),
   avatar: z.string().url().optional(),
+  reportingCurrency: currencyCodeValidation.optional(),
+});
+
+// Currency to report totals in (defaults to the user's reporting currency)
+const dashboardQuerySchema = z.object({
+  currency: currencyCodeValidation.optional(),
 });
 
 /**
@@ -29,7 +40,7 @@ const getMeRoute = app.get(
   '/me',
   authMiddleware,
   async (c) => {
-    const user = c.get('user');
+    const userId = c.get('userId');
     const db = getDatabase();
 
     try {
@@ -42,11 +53,12 @@ const getMeRoute = app.get(
         avatar: users.avatar,
         type: users.type,
         emailVerified: users.emailVerified,
+        reportingCurrency: users.reportingCurrency,
         createdAt: users.createdAt,
         lastLoginAt: users.lastLoginAt,
       })
       .from(users)
-      .where(eq(users.id, user.id))
+      .where(eq(users.id, userId))
       .limit(1);
 
       if (!userProfile[0]) {
@@ -55,11 +67,12 @@ const getMeRoute = app.get(
         });
       }
 
-      // Get user's asset count
+      // Count the assets the user can currently access
+      const memberships = await getActiveMemberships(userId);
       const assetCountResult = await db.select({ count: count() })
         .from(assets)
         .where(and(
-          eq(assets.userId, user.id),
+          accessibleAssetsCondition(userId, memberships),
           isNull(assets.deletedAt) // Only count non-deleted assets
         ));
 
@@ -96,7 +109,7 @@ const updateMeRoute = app.put(
   authMiddleware,
   zValidator('json', updateProfileSchema),
   async (c) => {
-    const user = c.get('user');
+    const userId = c.get('userId');
     const updates = c.req.valid('json');
     const db = getDatabase();
 
@@ -107,7 +120,7 @@ const updateMeRoute = app.put(
           ...updates,
           updatedAt: new Date(),
         })
-        .where(eq(users.id, user.id))
+        .where(eq(users.id, userId))
         .returning({
           id: users.id,
           email: users.email,
@@ -116,6 +129,7 @@ const updateMeRoute = app.put(
           avatar: users.avatar,
           type: users.type,
           emailVerified: users.emailVerified,
+          reportingCurrency: users.reportingCurrency,
           updatedAt: users.updatedAt,
         });
 
@@ -134,17 +148,74 @@ const updateMeRoute = app.put(
   }
 );
 
+/**
+ * GET /me/permissions - Permissions of the current user, for personal assets
+ * and in each organization they are an active member of
+ */
+const getMyPermissionsRoute = app.get(
+  '/me/permissions',
+  authMiddleware,
+  async (c) => {
+    const userId = c.get('userId');
+    const db = getDatabase();
+
+    try {
+      const memberships = await db.select({
+        id: organizations.id,
+        name: organizations.name,
+        slug: organizations.slug,
+        role: userOrganizations.role,
+      })
+      .from(userOrganizations)
+      .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
+      .where(and(
+        eq(userOrganizations.userId, userId),
+        eq(userOrganizations.isActive, true),
+        isNull(userOrganizations.leftAt),
+        isNull(organizations.deletedAt)
+      ))
+      .orderBy(asc(organizations.name));
+
+      return c.json({
+        success: true,
+        data: {
+          available: PERMISSIONS,
+          personal: PERSONAL_PERMISSIONS,
+          organizations: memberships.map((membership) => ({
+            ...membership,
+            permissions: permissionsFor(membership.role),
+          })),
+        },
+      });
+
+    } catch (error) {
+      console.error('Get user permissions error:', error);
+      throw new HTTPException(500, { 
+        message: 'Failed to fetch permissions' 
+      });
+    }
+  }
+);
+
 /**
  * GET /dashboard - Get User Dashboard Data
  */
 const getDashboardRoute = app.get(
   '/dashboard',
   authMiddleware,
+  zValidator('query', dashboardQuerySchema),
   async (c) => {
-    const user = c.get('user');
+    const userId = c.get('userId');
+    const { currency: requestedCurrency } = c.req.valid('query');
     const db = getDatabase();
 
     try {
+      const currency = requestedCurrency ?? await resolveReportingCurrency({ userId });
+
+      // Personal assets and those of organizations the user is still an active member of
+      const memberships = await getActiveMemberships(userId);
+      const scope = accessibleAssetsCondition(userId, memberships);
+
       // Get recent assets
       const recentAssets = await db.select({
         id: assets.id,
@@ -152,6 +223,7 @@ const getDashboardRoute = app.get(
         brand: assets.brand,
         model: assets.model,
         purchasePrice: assets.purchasePrice,
+        purchaseCurrency: assets.purchaseCurrency,
         purchaseDate: assets.purchaseDate,
         status: assets.status,
         images: assets.images,
@@ -159,7 +231,7 @@ const getDashboardRoute = app.get(
       })
       .from(assets)
       .where(and(
-        eq(assets.userId, user.id),
+        scope,
         isNull(assets.deletedAt)
       ))
       .orderBy(desc(assets.createdAt))
@@ -172,23 +244,16 @@ const getDashboardRoute = app.get(
       })
       .from(assets)
       .where(and(
-        eq(assets.userId, user.id),
+        scope,
         isNull(assets.deletedAt)
       ))
       .groupBy(assets.status);
 
-      // Calculate portfolio value (sum of purchase prices)
-      const portfolioValue = await db.select({
-        total: sql<number>`SUM(CAST(${assets.purchasePrice} AS DECIMAL))`,
-      })
-      .from(assets)
-      .where(and(
-        eq(assets.userId, user.id),
-        isNull(assets.deletedAt),
-        eq(assets.status, 'active')
-      ));
-
-      const totalValue = portfolioValue[0]?.total || 0;
+      // Portfolio value from the latest valuation estimates
+      const portfolio = await getPortfolioValuation(
+        accessibleAssetsCondition(userId, memberships, 'valuation:read'),
+        currency
+      );
 
       return c.json({
         success: true,
@@ -197,7 +262,9 @@ const getDashboardRoute = app.get(
           statistics: {
             totalAssets: assetStats.reduce((acc, stat) => acc + stat.count, 0),
             assetsByStatus: assetStats,
-            portfolioValue: totalValue,
+            currency,
+            portfolioValue: portfolio.estimatedValue.realistic,
+            portfolio,
           },
         },
       });
@@ -215,6 +282,7 @@ const getDashboardRoute = app.get(
 const userRoutes = app
   .route('/', getMeRoute)
   .route('/', updateMeRoute)
+  .route('/', getMyPermissionsRoute)
   .route('/', getDashboardRoute);
 
 export default userRoutes;
@@ -0,0 +1,303 @@
+/**
+ * Asset Valuation Routes
+ *
+ * Hono RPC routes for computing and reading multi-scenario asset valuations.
+ * Mounted under /assets alongside the asset routes.
+ */
+
+import { Hono } from 'hono';
+import { zValidator } from '@hono/zod-validator';
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod';
+import { eq, and, isNull } from 'drizzle-orm';
+import { getDatabase, assets } from '../lib/db.js';
+import { authMiddleware } from '../middleware/auth.js';
+import { recomputeAssetValuations, getLatestValuations, type AssetValuation } from '../lib/valuation/engine.js';
+import { getValuationHistory, countBuckets } from '../lib/valuation/history.js';
+import { recommendSaleWindow } from '../lib/valuation/sale-window.js';
+import { reportValuations, reportHistoryBuckets, reportSaleRecommendation } from '../lib/valuation/currency.js';
+import { describeDepreciation } from '../lib/valuation/real-terms.js';
+import { loadFxConverter, normalizeCurrency, resolveReportingCurrency } from '../lib/fx/rates.js';
+import { loadCpiTable } from '../lib/inflation/cpi.js';
+import { currencyCodeValidation } from '../lib/validation/schemas.js';
+import { canAccessAsset } from '../lib/organizations/access.js';
+import type { Permission } from '../lib/organizations/permissions.js';
+
+const app = new Hono();
+
+// Upper bound on buckets returned by the history endpoint
+const MAX_HISTORY_BUCKETS = 520;
+
+const valuationHistoryQuerySchema = z.object({
+  from: z.string().datetime().optional(),
+  to: z.string().datetime().optional(),
+  interval: z.enum(['week', 'month']).default('month'),
+  currency: currencyCodeValidation.optional(),
+});
+
+// Reporting currency override (defaults to the user's or organization's)
+const reportingCurrencyQuerySchema = z.object({
+  currency: currencyCodeValidation.optional(),
+});
+
+/**
+ * Load a non-deleted asset and make sure the current user holds `permission`
+ * on it, as its owner or through their organization role
+ */
+const loadAccessibleAsset = async (assetId: string, userId: string, permission: Permission = 'valuation:read') => {
+  const db = getDatabase();
+
+  const assetResult = await db.select({
+    id: assets.id,
+    userId: assets.userId,
+    organizationId: assets.organizationId,
+    purchasePrice: assets.purchasePrice,
+    purchaseDate: assets.purchaseDate,
+    purchaseCurrency: assets.purchaseCurrency,
+  })
+  .from(assets)
+  .where(and(eq(assets.id, assetId), isNull(assets.deletedAt)))
+  .limit(1);
+
+  if (!assetResult[0]) {
+    throw new HTTPException(404, {
+      message: 'Asset not found'
+    });
+  }
+
+  if (!await canAccessAsset(userId, assetResult[0], permission)) {
+    throw new HTTPException(403, {
+      message: 'Access denied'
+    });
+  }
+
+  return assetResult[0];
+};
+
+/**
+ * Requested reporting currency, or the one configured for the asset's
+ * organization or the user
+ */
+const reportingCurrencyFor = async (
+  asset: { organizationId: string | null },
+  userId: string,
+  requested: string | undefined
+): Promise<string> =>
+  requested ?? resolveReportingCurrency({ userId, organizationId: asset.organizationId });
+
+/**
+ * Valuations as returned by the API: in the asset's currency and the
+ * reporting currency, with nominal and real depreciation since purchase
+ */
+const presentValuations = async (
+  asset: Awaited<ReturnType<typeof loadAccessibleAsset>>,
+  valuations: AssetValuation[],
+  reportingCurrency: string
+) => {
+  const assetCurrency = normalizeCurrency(asset.purchaseCurrency);
+  const [fx, cpi] = await Promise.all([
+    loadFxConverter([assetCurrency, reportingCurrency]),
+    loadCpiTable([assetCurrency]),
+  ]);
+  const purchase = {
+    price: parseFloat(asset.purchasePrice),
+    date: asset.purchaseDate,
+    currency: assetCurrency,
+  };
+
+  return reportValuations(valuations, fx, assetCurrency, reportingCurrency).map((valuation) => ({
+    ...valuation,
+    depreciation: describeDepreciation(valuation, purchase, cpi),
+  }));
+};
+
+/**
+ * POST /:id/valuations/recompute - Recompute the three valuation scenarios
+ */
+const recomputeValuationsRoute = app.post(
+  '/:id/valuations/recompute',
+  authMiddleware,
+  zValidator('query', reportingCurrencyQuerySchema),
+  async (c) => {
+    const assetId = c.req.param('id');
+    const userId = c.get('userId');
+    const { currency } = c.req.valid('query');
+
+    try {
+      const asset = await loadAccessibleAsset(assetId, userId, 'valuation:compute');
+
+      const valuations = await recomputeAssetValuations(assetId);
+      if (!valuations) {
+        throw new HTTPException(404, {
+          message: 'Asset not found'
+        });
+      }
+
+      return c.json({
+        success: true,
+        message: 'Valuations recomputed successfully',
+        data: await presentValuations(asset, valuations, await reportingCurrencyFor(asset, userId, currency)),
+      }, 201);
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Recompute valuations error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to recompute valuations'
+      });
+    }
+  }
+);
+
+/**
+ * GET /:id/valuations - Get the latest valuation for each scenario
+ */
+const getValuationsRoute = app.get(
+  '/:id/valuations',
+  authMiddleware,
+  zValidator('query', reportingCurrencyQuerySchema),
+  async (c) => {
+    const assetId = c.req.param('id');
+    const userId = c.get('userId');
+    const { currency } = c.req.valid('query');
+
+    try {
+      const asset = await loadAccessibleAsset(assetId, userId);
+      const reportingCurrency = await reportingCurrencyFor(asset, userId, currency);
+      const valuations = await getLatestValuations(assetId);
+
+      return c.json({
+        success: true,
+        data: await presentValuations(asset, valuations, reportingCurrency),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get valuations error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch valuations'
+      });
+    }
+  }
+);
+
+/**
+ * GET /:id/valuations/history - Bucketed valuation time series per scenario
+ */
+const getValuationHistoryRoute = app.get(
+  '/:id/valuations/history',
+  authMiddleware,
+  zValidator('query', valuationHistoryQuerySchema),
+  async (c) => {
+    const assetId = c.req.param('id');
+    const userId = c.get('userId');
+    const { from, to, interval, currency } = c.req.valid('query');
+
+    const toDate = to ? new Date(to) : new Date();
+    const fromDate = from ? new Date(from) : new Date(Date.UTC(toDate.getUTCFullYear() - 1, toDate.getUTCMonth(), toDate.getUTCDate()));
+
+    if (fromDate > toDate) {
+      throw new HTTPException(400, {
+        message: "'from' must be before 'to'"
+      });
+    }
+
+    if (countBuckets(fromDate, toDate, interval) > MAX_HISTORY_BUCKETS) {
+      throw new HTTPException(400, {
+        message: `Date range too large, at most ${MAX_HISTORY_BUCKETS} ${interval}s can be requested`
+      });
+    }
+
+    try {
+      const asset = await loadAccessibleAsset(assetId, userId);
+      const assetCurrency = normalizeCurrency(asset.purchaseCurrency);
+      const reportingCurrency = await reportingCurrencyFor(asset, userId, currency);
+
+      const [buckets, fx] = await Promise.all([
+        getValuationHistory(assetId, fromDate, toDate, interval),
+        loadFxConverter([assetCurrency, reportingCurrency]),
+      ]);
+
+      return c.json({
+        success: true,
+        data: {
+          interval,
+          from: fromDate.toISOString(),
+          to: toDate.toISOString(),
+          currency: assetCurrency,
+          reportingCurrency,
+          buckets: reportHistoryBuckets(buckets, fx, assetCurrency, reportingCurrency),
+        },
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get valuation history error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to fetch valuation history'
+      });
+    }
+  }
+);
+
+/**
+ * GET /:id/sale-recommendation - Recommended resale window with expected proceeds
+ */
+const getSaleRecommendationRoute = app.get(
+  '/:id/sale-recommendation',
+  authMiddleware,
+  zValidator('query', reportingCurrencyQuerySchema),
+  async (c) => {
+    const assetId = c.req.param('id');
+    const userId = c.get('userId');
+    const { currency } = c.req.valid('query');
+
+    try {
+      const asset = await loadAccessibleAsset(assetId, userId);
+      const reportingCurrency = await reportingCurrencyFor(asset, userId, currency);
+
+      const recommendation = await recommendSaleWindow(assetId);
+      if (!recommendation) {
+        throw new HTTPException(404, {
+          message: 'Asset not found'
+        });
+      }
+
+      const fx = await loadFxConverter([recommendation.currency, reportingCurrency]);
+
+      return c.json({
+        success: true,
+        data: reportSaleRecommendation(recommendation, fx, reportingCurrency),
+      });
+
+    } catch (error) {
+      if (error instanceof HTTPException) {
+        throw error;
+      }
+
+      console.error('Get sale recommendation error:', error);
+      throw new HTTPException(500, {
+        message: 'Failed to compute sale recommendation'
+      });
+    }
+  }
+);
+
+// Combine all routes
+const valuationRoutes = app
+  .route('/', recomputeValuationsRoute)
+  .route('/', getValuationsRoute)
+  .route('/', getValuationHistoryRoute)
+  .route('/', getSaleRecommendationRoute);
+
+export default valuationRoutes;
+export type ValuationRoutesType = typeof valuationRoutes;